@@ -0,0 +1,141 @@
+// ===============================================
+// WALLET SIGN-IN
+// ===============================================
+
+// Matching sockets prove they own the wallet they join with. A socket asks
+// for a nonce, signs a sign-in message containing it (see
+// src/shared/signIn.js) and sends message and signature with join-matching.
+// Once the signature checks out, the address is bound to the socket for as
+// long as it stays connected, and the client gets a session token. Sockets
+// that reconnect send the token instead of asking the wallet to sign again.
+//
+// Sign-in messages name the site they were signed for. SIGN_IN_DOMAIN sets
+// the host messages must be for; without it, it's the host of the socket's
+// Origin header, and sockets without one can't sign in.
+
+const crypto = require("crypto");
+const { utils } = require("ethers");
+const {
+  parseSignInMessage,
+  normalizeAddress,
+} = require("../src/shared/signIn");
+
+const NONCE_LIFETIME = 5 * 60 * 1000; // Milliseconds a nonce can be signed for
+const SESSION_LIFETIME = 12 * 60 * 60 * 1000; // Milliseconds a session token can be reused for
+const SIGN_IN_DOMAIN = process.env.SIGN_IN_DOMAIN || null;
+
+// Sessions by token
+const sessions = new Map();
+
+// Give a socket a fresh nonce to sign, replacing any earlier one
+function issueSignInNonce(socket) {
+  const nonce = crypto.randomBytes(16).toString("hex");
+  const expiresAt = Date.now() + NONCE_LIFETIME;
+  socket.data.signInNonce = { nonce: nonce, expiresAt: expiresAt };
+
+  return { nonce: nonce, expiresAt: expiresAt };
+}
+
+// Check a signed sign-in message against the socket's nonce. Returns the
+// verified address, or why sign-in failed.
+function verifySignIn(socket, address, message, signature) {
+  // A socket that signed in already keeps its wallet
+  if (socket.data.address) {
+    return sameAddress(socket.data.address, address)
+      ? { address: socket.data.address }
+      : { error: "Already signed in with another wallet" };
+  }
+
+  const issued = socket.data.signInNonce;
+  if (!issued || Date.now() > issued.expiresAt) {
+    return { error: "Sign-in nonce missing or expired" };
+  }
+
+  const fields = parseSignInMessage(message);
+  if (!fields) {
+    return { error: "Malformed sign-in message" };
+  }
+  if (fields.nonce !== issued.nonce) {
+    return { error: "Sign-in nonce does not match" };
+  }
+  if (!sameAddress(fields.address, address)) {
+    return { error: "Sign-in message is for another address" };
+  }
+  if (!(Date.parse(fields.expirationTime) > Date.now())) {
+    return { error: "Sign-in message has expired" };
+  }
+
+  // Messages signed for another site can't be replayed here
+  const domain =
+    SIGN_IN_DOMAIN || getHost(socket.handshake.headers.origin || "");
+  if (!domain || domain !== fields.domain) {
+    return { error: "Sign-in message is for another domain" };
+  }
+
+  let signer;
+  try {
+    signer = utils.verifyMessage(message, signature);
+  } catch (err) {
+    return { error: "Malformed signature" };
+  }
+  if (!sameAddress(signer, address)) {
+    return { error: "Signature does not match the address" };
+  }
+
+  // Each nonce signs in once
+  socket.data.signInNonce = null;
+  socket.data.address = fields.address;
+  return { address: fields.address };
+}
+
+// Give a socket that just signed in a token it can sign in again with
+function issueSession(address) {
+  const now = Date.now();
+  sessions.forEach((session, token) => {
+    if (now > session.expiresAt) sessions.delete(token);
+  });
+
+  const token = crypto.randomBytes(24).toString("hex");
+  const expiresAt = now + SESSION_LIFETIME;
+  sessions.set(token, { address: address, expiresAt: expiresAt });
+
+  return { session: token, expiresAt: expiresAt };
+}
+
+// Sign a socket in with a session token from an earlier sign-in. Returns the
+// session's address, or why sign-in failed.
+function resumeSession(socket, address, token) {
+  const session = sessions.get(token);
+  if (!session || Date.now() > session.expiresAt) {
+    sessions.delete(token);
+    return { error: "Session missing or expired" };
+  }
+  if (!sameAddress(session.address, address)) {
+    return { error: "Session is for another address" };
+  }
+  if (socket.data.address && !sameAddress(socket.data.address, address)) {
+    return { error: "Already signed in with another wallet" };
+  }
+
+  socket.data.address = session.address;
+  return { address: session.address };
+}
+
+function sameAddress(a, b) {
+  return normalizeAddress(a) === normalizeAddress(b);
+}
+
+function getHost(origin) {
+  try {
+    return new URL(origin).host;
+  } catch (err) {
+    return null;
+  }
+}
+
+module.exports = {
+  issueSignInNonce,
+  verifySignIn,
+  issueSession,
+  resumeSession,
+};
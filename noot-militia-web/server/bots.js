@@ -0,0 +1,476 @@
+// ===============================================
+// BOTS
+// ===============================================
+
+// AI Noots the match server plays in place of missing humans. Every tick a
+// bot looks at the match the way a player would and comes up with an
+// ordinary input command, which the match applies like anyone else's.
+//
+// Bots find their way around with a navigation graph built once from the
+// level: every stretch of platform a player can walk along is a segment,
+// and segments are linked by jumping up onto a platform edge with nothing
+// overhead or by walking off an edge. A bot takes the shortest route to the
+// segment its target stands on, hopping over rocks on the way.
+//
+// Bullets fly horizontally, so a bot only shoots at targets roughly level
+// with itself and hurt bots back off behind a rock or platform. The
+// difficulty sets how quickly a bot fires once it has a clear shot, from
+// how far, how level the shot has to be, and how soon it takes cover.
+
+const {
+  WORLD_WIDTH,
+  PLATFORMS,
+  ROCKS,
+  JUMP_VELOCITY,
+  GRAVITY,
+  PLAYER_BODY,
+  boxesOverlap,
+  bulletBox,
+  createBullet,
+} = require("../src/shared/simulation");
+
+const BOT_DIFFICULTIES = {
+  easy: {
+    reactionTicks: 20, // Ticks a target must be in sight before the first shot
+    fireChance: 0.3, // Chance to pull the trigger on a tick it could
+    range: 450, // Pixels a bot shoots from
+    levelTolerance: 45, // Pixels of height difference it still shoots at
+    coverHealth: 0, // Health at which it looks for cover
+  },
+  normal: {
+    reactionTicks: 10,
+    fireChance: 0.6,
+    range: 700,
+    levelTolerance: 30,
+    coverHealth: 3,
+  },
+  hard: {
+    reactionTicks: 4,
+    fireChance: 0.9,
+    range: 1000,
+    levelTolerance: 22,
+    coverHealth: 4,
+  },
+};
+
+const HALF_WIDTH = PLAYER_BODY.width / 2;
+const MAX_CLIMB = (JUMP_VELOCITY * JUMP_VELOCITY) / (2 * GRAVITY) - 20; // Pixels a jump reliably climbs
+const EDGE_MARGIN = HALF_WIDTH + 12; // Distance from a platform edge to jump from
+const LANDING_INSET = 40; // Distance past a platform edge to land at
+const ROUTE_PENALTY = 150; // Extra cost of a jump or drop over walking, in pixels
+const ARRIVE_DISTANCE = 8; // Pixels from a jump spot a bot jumps at
+const MIN_RANGE = 120; // Pixels a bot backs off to from a target right next to it
+const COVER_SEARCH_RANGE = 400; // Pixels a hurt bot walks to reach cover
+const LINE_STEP = 16; // Pixels between the points a line of fire is checked at
+
+// ===============================================
+// NAVIGATION
+// ===============================================
+
+// Stretches of platform a player can walk along. An end is open if it is
+// the edge of the platform (so it can be walked off or jumped onto) rather
+// than a wall.
+const SEGMENTS = buildSegments();
+// For every pair of segments, the first link of the shortest route between
+// them, or null if there is none
+const ROUTES = buildRoutes(SEGMENTS);
+
+function buildSegments() {
+  const segments = [];
+
+  PLATFORMS.forEach((surface) => {
+    const top = surface.y;
+    const start = Math.max(surface.x, HALF_WIDTH);
+    const end = Math.min(surface.x + surface.width, WORLD_WIDTH - HALF_WIDTH);
+
+    // Platforms in the way of a player standing on this one
+    const walls = PLATFORMS.filter(
+      (other) =>
+        other !== surface &&
+        other.y < top &&
+        other.y + other.height > top - PLAYER_BODY.height
+    )
+      .map((other) => [
+        other.x - HALF_WIDTH,
+        other.x + other.width + HALF_WIDTH,
+      ])
+      .sort((a, b) => a[0] - b[0]);
+
+    let left = start;
+    let leftOpen = start === surface.x;
+    walls.forEach(([wallStart, wallEnd]) => {
+      if (wallStart > left && left < end) {
+        segments.push({
+          top: top,
+          left: left,
+          right: Math.min(wallStart, end),
+          leftOpen: leftOpen,
+          rightOpen: false,
+        });
+      }
+      if (wallEnd > left) {
+        left = wallEnd;
+        leftOpen = false;
+      }
+    });
+
+    if (left < end) {
+      segments.push({
+        top: top,
+        left: left,
+        right: end,
+        leftOpen: leftOpen,
+        rightOpen: end === surface.x + surface.width,
+      });
+    }
+  });
+
+  return segments;
+}
+
+function buildRoutes(segments) {
+  const count = segments.length;
+  const cost = segments.map((_, i) =>
+    segments.map((__, j) => (i === j ? 0 : Infinity))
+  );
+  const next = segments.map(() => segments.map(() => null));
+
+  getLinks(segments).forEach((link) => {
+    if (link.cost < cost[link.from][link.to]) {
+      cost[link.from][link.to] = link.cost;
+      next[link.from][link.to] = link;
+    }
+  });
+
+  // Floyd-Warshall, the level only has a couple dozen segments
+  for (let k = 0; k < count; k++) {
+    for (let i = 0; i < count; i++) {
+      for (let j = 0; j < count; j++) {
+        if (cost[i][k] + cost[k][j] < cost[i][j]) {
+          cost[i][j] = cost[i][k] + cost[k][j];
+          next[i][j] = next[i][k];
+        }
+      }
+    }
+  }
+
+  return next;
+}
+
+// Every way of getting from one segment straight to another. `x` is where
+// to go on the first segment, `landX` where to steer for while in the air.
+function getLinks(segments) {
+  const links = [];
+  const middle = (segment) => (segment.left + segment.right) / 2;
+  const addLink = (from, to, x, landX, jump) => {
+    links.push({
+      from: from,
+      to: to,
+      x: x,
+      landX: landX,
+      jump: jump,
+      cost:
+        Math.abs(x - middle(segments[from])) +
+        Math.abs(landX - middle(segments[to])) +
+        ROUTE_PENALTY,
+    });
+  };
+
+  segments.forEach((from, i) => {
+    // Jump up onto the open ends of segments within reach
+    segments.forEach((to, j) => {
+      if (to.top >= from.top || from.top - to.top > MAX_CLIMB) return;
+
+      const spots = [];
+      if (to.leftOpen)
+        spots.push([to.left - EDGE_MARGIN, to.left + LANDING_INSET]);
+      if (to.rightOpen) {
+        spots.push([to.right + EDGE_MARGIN, to.right - LANDING_INSET]);
+      }
+
+      spots.forEach(([x, landX]) => {
+        if (x < from.left || x > from.right) return;
+        if (!hasHeadroom(x, to.top, from.top)) return;
+        addLink(i, j, x, landX, true);
+      });
+    });
+
+    // Walk off open ends onto whatever is below
+    const drops = [];
+    if (from.leftOpen) drops.push(from.left - HALF_WIDTH - 4);
+    if (from.rightOpen) drops.push(from.right + HALF_WIDTH + 4);
+
+    drops.forEach((x) => {
+      const below = findSegmentBelow(segments, x, from.top + 1);
+      if (below !== null) {
+        addLink(i, below, x, x, false);
+      }
+    });
+  });
+
+  return links;
+}
+
+// True if a player at `x` can jump from `feet` up to stand at `top` without
+// hitting a platform on the way
+function hasHeadroom(x, top, feet) {
+  const column = {
+    x: x - HALF_WIDTH,
+    y: top - PLAYER_BODY.height,
+    width: PLAYER_BODY.width,
+    height: feet - top - 1,
+  };
+  return !PLATFORMS.some((platform) => boxesOverlap(column, platform));
+}
+
+// Index of the highest segment at or below `feet` that a player at `x`
+// would stand on, or null
+function findSegmentBelow(segments, x, feet) {
+  let found = null;
+  segments.forEach((segment, index) => {
+    if (segment.top < feet - 2) return;
+    if (x < segment.left - HALF_WIDTH || x > segment.right + HALF_WIDTH) {
+      return;
+    }
+    if (found === null || segment.top < segments[found].top) {
+      found = index;
+    }
+  });
+  return found;
+}
+
+// Index of the segment a player stands on, or the one they'll come down on
+function getSegment(player) {
+  return findSegmentBelow(
+    SEGMENTS,
+    player.x,
+    player.y + PLAYER_BODY.height / 2
+  );
+}
+
+// ===============================================
+// DECISIONS
+// ===============================================
+
+// Fresh AI state for a bot of a difficulty
+function createBot(difficulty) {
+  return {
+    difficulty: difficulty,
+    seq: 0, // Sequence number of the last input command
+    targetId: null, // Player the bot is after
+    seenFor: 0, // Ticks the target has been in a clear line of fire
+    landX: null, // Where to steer for while jumping or dropping
+    landTop: null, // Top of the platform being jumped onto
+    wanderX: null, // Where to walk while there is nobody to fight
+    lastX: null, // Position on the previous tick, to notice being stuck
+  };
+}
+
+// The input command a bot sends this tick. `others` are the other players
+// in the match.
+function getBotInput(bot, player, others, now) {
+  const settings = BOT_DIFFICULTIES[bot.difficulty];
+  const input = {
+    seq: ++bot.seq,
+    left: false,
+    right: false,
+    jump: false,
+    fire: false,
+    aim: player.flipX ? Math.PI : 0,
+  };
+
+  if (player.isDead) {
+    bot.seenFor = 0;
+    bot.landX = null;
+    return input;
+  }
+
+  // Finish a jump or drop before anything else. Jumps go straight up until
+  // the bot's feet are above the platform, so it doesn't hit the side.
+  if (!player.physics.onGround && bot.landX !== null) {
+    const feet = player.y + PLAYER_BODY.height / 2;
+    if (bot.landTop === null || feet < bot.landTop) {
+      walkTowards(input, player.x, bot.landX);
+    }
+    return input;
+  }
+  bot.landX = null;
+  bot.landTop = null;
+
+  const target = pickTarget(bot, player, others, now);
+  if (!target) {
+    wander(bot, player, input);
+    avoidGettingStuck(bot, player, input);
+    return input;
+  }
+
+  const dx = target.x - player.x;
+  const dy = target.y - player.y;
+  const clearShot =
+    Math.abs(dy) <= settings.levelTolerance &&
+    Math.abs(dx) <= settings.range &&
+    isLineOfFireClear(player.x, player.y, target.x);
+  bot.seenFor = clearShot ? bot.seenFor + 1 : 0;
+
+  // Hurt bots back off behind cover instead of trading shots
+  if (clearShot && player.health <= settings.coverHealth) {
+    const coverX = findCover(player, target);
+    if (coverX !== null) {
+      walkTowards(input, player.x, coverX);
+      avoidGettingStuck(bot, player, input);
+      return input;
+    }
+  }
+
+  if (clearShot) {
+    // Back off from targets too close to hit, picking a side when standing
+    // right on them, and close in on targets at the edge of the range
+    if (Math.abs(dx) < MIN_RANGE) {
+      const away = dx === 0 ? (Math.random() < 0.5 ? -1 : 1) : -Math.sign(dx);
+      walkTowards(input, player.x, player.x + away * MIN_RANGE);
+    } else if (Math.abs(dx) > settings.range * 0.6) {
+      walkTowards(input, player.x, target.x);
+    }
+
+    // Walking and aiming are separate, so keep the target in the sights
+    input.aim = dx < 0 ? Math.PI : 0;
+    if (
+      bot.seenFor >= settings.reactionTicks &&
+      Math.random() < settings.fireChance
+    ) {
+      input.fire = true;
+    }
+
+    avoidGettingStuck(bot, player, input);
+    return input;
+  }
+
+  moveTowards(bot, player, target, input);
+  avoidGettingStuck(bot, player, input);
+  return input;
+}
+
+// Closest living player, counting height differences extra since those take
+// a climb to deal with
+function pickTarget(bot, player, others, now) {
+  const score = (other) => {
+    let distance =
+      Math.abs(other.x - player.x) + Math.abs(other.y - player.y) * 3;
+    // Shooting at freshly spawned players is wasted effort
+    if (now < other.invulnerableUntil) distance += 1000;
+    // Stick with the current target unless another is clearly closer
+    if (other.playerId === bot.targetId) distance *= 0.8;
+    return distance;
+  };
+
+  const target =
+    others
+      .filter((other) => !other.isDead)
+      .sort((a, b) => score(a) - score(b))[0] || null;
+
+  bot.targetId = target ? target.playerId : null;
+  return target;
+}
+
+// Follow the route to the target's segment, or walk straight at the target
+// once on it
+function moveTowards(bot, player, target, input) {
+  const from = getSegment(player);
+  const to = getSegment(target);
+  const link = from !== null && to !== null ? ROUTES[from][to] : null;
+
+  if (!link) {
+    walkTowards(input, player.x, target.x);
+    return;
+  }
+
+  if (link.jump && Math.abs(player.x - link.x) < ARRIVE_DISTANCE) {
+    input.jump = true;
+    bot.landX = link.landX;
+    bot.landTop = SEGMENTS[link.to].top;
+  } else {
+    // Walking to a drop point walks off the edge
+    if (!link.jump) bot.landX = link.landX;
+    walkTowards(input, player.x, link.x);
+  }
+}
+
+// Walk between random spots while there is nobody to fight
+function wander(bot, player, input) {
+  if (bot.wanderX === null || Math.abs(bot.wanderX - player.x) < 20) {
+    bot.wanderX =
+      HALF_WIDTH + Math.random() * (WORLD_WIDTH - PLAYER_BODY.width);
+  }
+  walkTowards(input, player.x, bot.wanderX);
+}
+
+// Jump over whatever a walking bot ran into, like a rock
+function avoidGettingStuck(bot, player, input) {
+  const walking = input.left || input.right;
+  if (
+    walking &&
+    player.physics.onGround &&
+    bot.lastX !== null &&
+    Math.abs(player.x - bot.lastX) < 0.5
+  ) {
+    input.jump = true;
+  }
+  bot.lastX = player.x;
+}
+
+// A spot on the bot's segment, on the far side of a rock or platform from
+// the target, where its bullets can't reach. Null if there is none in reach.
+function findCover(player, target) {
+  const segment = SEGMENTS[getSegment(player)];
+  let best = null;
+
+  ROCKS.concat(PLATFORMS.slice(1)).forEach((solid) => {
+    const x =
+      target.x > solid.x + solid.width / 2
+        ? solid.x - EDGE_MARGIN
+        : solid.x + solid.width + EDGE_MARGIN;
+    if (!segment || x < segment.left || x > segment.right) return;
+    if (Math.abs(x - player.x) > COVER_SEARCH_RANGE) return;
+    if (isLineOfFireClear(target.x, player.y, x)) return;
+
+    if (best === null || Math.abs(x - player.x) < Math.abs(best - player.x)) {
+      best = x;
+    }
+  });
+
+  return best;
+}
+
+// True if a bullet fired by a player at (x, y) can fly to `targetX` without
+// hitting a rock or platform
+function isLineOfFireClear(x, y, targetX) {
+  const bullet = createBullet(x, y, targetX < x, 0);
+  const direction = targetX < x ? -1 : 1;
+
+  for (
+    let bulletX = bullet.x;
+    direction * (targetX - bulletX) > 0;
+    bulletX += direction * LINE_STEP
+  ) {
+    const box = bulletBox(bulletX, bullet.y);
+    if (PLATFORMS.concat(ROCKS).some((solid) => boxesOverlap(box, solid))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Hold the key that walks from x towards targetX, facing that way
+function walkTowards(input, x, targetX) {
+  if (Math.abs(targetX - x) < 4) return;
+
+  input.left = targetX < x;
+  input.right = targetX > x;
+  input.aim = input.left ? Math.PI : 0;
+}
+
+module.exports = {
+  BOT_DIFFICULTIES,
+  createBot,
+  getBotInput,
+};
@@ -0,0 +1,89 @@
+// ===============================================
+// CHAT
+// ===============================================
+
+// Text chat between the players of a lobby or a match. Messages are trimmed,
+// passed through the chat filter and delivered to every recipient that
+// hasn't muted the sender. Payload sizes and message rates are limited like
+// any other event (see validation.js and rateLimit.js).
+//
+// The default filter masks the words listed in CHAT_BLOCKLIST (comma
+// separated). A stricter profanity filter can be plugged in with
+// setChatFilter().
+
+const { normalizeAddress } = require("../src/shared/signIn");
+
+const MAX_CHAT_LENGTH = 200; // Characters in one message
+const BLOCKED_WORDS = new Set(
+  (process.env.CHAT_BLOCKLIST || "")
+    .split(",")
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+/** @type {(text: string, address: string) => string | null} */
+let chatFilter = maskBlockedWords;
+
+// Replace the chat filter. A filter gets the text and the sender's address
+// and returns the text to send, or null to drop the message.
+function setChatFilter(filter) {
+  chatFilter = filter;
+}
+
+// Build a chat message from a player, or null if there is nothing to send
+function createChatMessage(channel, playerId, address, text) {
+  const trimmed = text.trim().slice(0, MAX_CHAT_LENGTH);
+  if (!trimmed) return null;
+
+  const filtered = chatFilter(trimmed, address);
+  if (!filtered) return null;
+
+  return {
+    channel: channel,
+    playerId: playerId,
+    address: address,
+    text: filtered,
+    time: Date.now(),
+  };
+}
+
+// Send a message to sockets, skipping those that muted its sender
+function sendChatMessage(sockets, message) {
+  const sender = normalizeAddress(message.address);
+  sockets.forEach((socket) => {
+    if (socket.data.mutedAddresses && socket.data.mutedAddresses.has(sender)) {
+      return;
+    }
+    socket.emit("chat-message", message);
+  });
+}
+
+// Stop or resume delivering a wallet's messages to a socket
+function setMuted(socket, address, muted) {
+  if (!socket.data.mutedAddresses) {
+    socket.data.mutedAddresses = new Set();
+  }
+
+  if (muted) {
+    socket.data.mutedAddresses.add(normalizeAddress(address));
+  } else {
+    socket.data.mutedAddresses.delete(normalizeAddress(address));
+  }
+}
+
+// Default filter: mask blocked words with asterisks
+function maskBlockedWords(text) {
+  if (BLOCKED_WORDS.size === 0) return text;
+
+  return text.replace(/[\p{L}\p{N}']+/gu, (word) =>
+    BLOCKED_WORDS.has(word.toLowerCase()) ? "*".repeat(word.length) : word
+  );
+}
+
+module.exports = {
+  MAX_CHAT_LENGTH,
+  setChatFilter,
+  createChatMessage,
+  sendChatMessage,
+  setMuted,
+};
@@ -0,0 +1,126 @@
+// ===============================================
+// LAG COMPENSATION
+// ===============================================
+
+// A player aims at remote Noots that their client draws in the past: the
+// snapshot took half a round trip to arrive, is shown INTERPOLATION_DELAY
+// late, and the shot takes another half round trip to reach us. To judge
+// shots by what the shooter saw, every match keeps a short history of where
+// each player stood and bullets are tested against targets rewound by the
+// shooter's round trip time plus the interpolation delay.
+//
+// Round trips are timed against the server's own clock: each ping carries
+// only an ID, and a pong counts once, for a ping still waiting for one.
+
+const { INTERPOLATION_DELAY } = require("../src/shared/simulation");
+
+const HISTORY_DURATION = 1000; // Milliseconds of player positions kept
+const MAX_REWIND = 300; // Never rewind targets further than this
+const MAX_RTT_SAMPLE = 5000; // Forget pings unanswered for this long
+const RTT_SMOOTHING = 0.2; // Weight of a new RTT sample
+
+function createHitboxHistory() {
+  return {
+    frames: [], // Oldest first: { time, players: Map of socket IDs to states }
+  };
+}
+
+// Remember where every player stood at `time`
+function recordHistoryFrame(history, time, players) {
+  const states = new Map();
+  Object.values(players).forEach((player) => {
+    states.set(player.playerId, {
+      x: player.x,
+      y: player.y,
+      isDead: player.isDead,
+    });
+  });
+
+  history.frames.push({ time: time, players: states });
+
+  while (
+    history.frames.length > 0 &&
+    history.frames[0].time < time - HISTORY_DURATION
+  ) {
+    history.frames.shift();
+  }
+}
+
+// Where a player stood at `time`, interpolated between recorded frames.
+// Returns null if the player is not in the history around that time.
+function getHistoricalState(history, playerId, time) {
+  const frames = history.frames;
+  if (frames.length === 0) return null;
+
+  // Before the oldest frame: use the oldest state we have
+  if (time <= frames[0].time) {
+    return frames[0].players.get(playerId) || null;
+  }
+
+  for (let i = frames.length - 1; i >= 0; i--) {
+    const from = frames[i];
+    if (from.time > time) continue;
+
+    const fromState = from.players.get(playerId);
+    const to = frames[i + 1];
+    const toState = to && to.players.get(playerId);
+    if (!fromState || !toState) return fromState || null;
+
+    // Don't blend across a respawn or death
+    if (fromState.isDead !== toState.isDead) return fromState;
+
+    const t = (time - from.time) / (to.time - from.time);
+    return {
+      x: fromState.x + (toState.x - fromState.x) * t,
+      y: fromState.y + (toState.y - fromState.y) * t,
+      isDead: fromState.isDead,
+    };
+  }
+
+  return null;
+}
+
+// How far back a shot from a player with this round trip time is judged
+function getRewindAmount(rtt) {
+  return Math.min(Math.max(0, rtt) + INTERPOLATION_DELAY, MAX_REWIND);
+}
+
+// Remember when a ping went out to a player
+function recordPingSent(player, pingId, now) {
+  player.pendingPings.forEach((sentAt, id) => {
+    if (sentAt < now - MAX_RTT_SAMPLE) player.pendingPings.delete(id);
+  });
+  player.pendingPings.set(pingId, now);
+}
+
+// Time a player's answer to a ping. Pongs for pings that weren't sent to
+// the player, or were answered already, are ignored.
+function recordPong(player, pingId, now) {
+  const sentAt = player.pendingPings.get(pingId);
+  if (sentAt === undefined) return;
+
+  player.pendingPings.delete(pingId);
+  recordRttSample(player, sentAt, now);
+}
+
+// Fold one round trip measurement into a player's smoothed RTT
+function recordRttSample(player, sentAt, now) {
+  const sample = now - sentAt;
+  if (!Number.isFinite(sample) || sample < 0 || sample > MAX_RTT_SAMPLE) {
+    return;
+  }
+
+  player.rtt =
+    player.rtt === null
+      ? sample
+      : player.rtt + (sample - player.rtt) * RTT_SMOOTHING;
+}
+
+module.exports = {
+  createHitboxHistory,
+  recordHistoryFrame,
+  getHistoricalState,
+  getRewindAmount,
+  recordPingSent,
+  recordPong,
+};
@@ -0,0 +1,1272 @@
+// ===============================================
+// MATCH INSTANCES
+// ===============================================
+
+// Every lobby that reaches startGame() gets its own match. A match owns its
+// players, kill counts and respawn timers, and only talks to its members
+// through a dedicated socket.io room. Bullets are simulated here as well, so
+// clients only draw what the server decides.
+//
+// Each match runs a fixed-rate loop: every tick moves each player by their
+// next input command, advances bullets and broadcasts
+// one compact world snapshot. Clients never report positions or health.
+// Bullet hits are lag compensated, see lagCompensation.js.
+//
+// Players who disconnect are held for RECONNECT_GRACE_PERIOD. Every roster
+// entry gets a session token at game start; a socket that joins with it
+// within the grace period takes over the held player, health, kills and all.
+//
+// A match starts with a warmup, where kills don't count yet, and then
+// plays live until a player reaches the kill limit or time runs out. A tie
+// at the time limit goes to overtime, which the next kill decides. The
+// finished match sends everyone their results in `match-ended`.
+//
+// Players who press nothing for AFK_TIMEOUT are moved to the spectators (or
+// kicked with MATCH_AFK_ACTION=kick), so an idle player isn't left standing
+// around as free kills. They get an `afk-warning` AFK_WARNING_PERIOD before
+// that.
+//
+// Spectators are sockets in the match room that aren't players. They get
+// every snapshot and match event, but the match ignores their input,
+// respawns and chat, so they can only watch.
+//
+// Bots from the lobby play as ordinary players whose input comes from
+// bots.js each tick instead of a socket. They are on the roster without a
+// session token, get no snapshots and never go idle, and a match with only
+// bots left counts as empty.
+//
+// Every match is recorded as it's played and the recording is saved once
+// the match is disposed, see replays.js.
+//
+// Snapshots are binary deltas against the last snapshot each player
+// acknowledged (see src/shared/snapshotCodec.js). Start the server with
+// SNAPSHOT_ENCODING=json to broadcast plain JSON snapshots for debugging.
+
+const crypto = require("crypto");
+const {
+  SPAWN_POINTS,
+  IDLE_INPUT,
+  MAX_HEALTH,
+  SPAWN_INVULNERABILITY,
+  TICK_RATE,
+  TICK_DELTA,
+  MAPS,
+  FIRE_INTERVAL_TICKS,
+  createPhysicsState,
+  stepPlayer,
+  createBullet,
+  stepBullet,
+  playerBox,
+  boxesOverlap,
+  applyBulletDamage,
+} = require("../src/shared/simulation");
+const {
+  createHitboxHistory,
+  recordHistoryFrame,
+  getHistoricalState,
+  getRewindAmount,
+  recordPingSent,
+  recordPong,
+} = require("./lagCompensation");
+const {
+  createSnapshotState,
+  encodeSnapshot,
+} = require("../src/shared/snapshotCodec");
+const { createBot, getBotInput } = require("./bots");
+const { createRecording, recordEvent, saveRecording } = require("./replays");
+const { normalizeAddress } = require("../src/shared/signIn");
+
+/**
+ * @typedef {object} RosterEntry
+ * @property {string} address
+ * @property {number} spawnPointIndex
+ * @property {number} slot Compact player ID used in binary snapshots
+ * @property {string | null} sessionToken Null for bots
+ * @property {boolean} expired
+ * @property {boolean} kicked
+ */
+
+/**
+ * @typedef {ReturnType<typeof createPlayer>} MatchPlayer
+ */
+
+/**
+ * A match as createMatch() sets it up
+ * @typedef {object} Match
+ * @property {string} id ID of the lobby the match is played from
+ * @property {string} room
+ * @property {import("socket.io").Server} io
+ * @property {Map<string, RosterEntry>} roster
+ * @property {Record<string, MatchPlayer>} players
+ * @property {Map<string, { snapshotAck: number }>} spectators
+ * @property {Map<string, { player: MatchPlayer, timer: NodeJS.Timeout }>} suspended
+ * @property {() => void} onEmpty
+ * @property {(results: import("../src/shared/protocol").MatchEndedPayload) => void} onFinished
+ * @property {import("../src/shared/protocol").LobbySettings} settings
+ * @property {import("../src/shared/protocol").MatchPhase} phase
+ * @property {number | null} phaseEndsAt
+ * @property {Map<string, NodeJS.Timeout>} respawnTimers
+ * @property {Map<string, any>} bullets
+ * @property {number} nextBulletId
+ * @property {number} nextBulletNetId
+ * @property {number} nextPingId
+ * @property {ReturnType<typeof createHitboxHistory>} history
+ * @property {number} tick
+ * @property {Map<number, import("../src/shared/snapshotCodec").SnapshotState>} snapshotHistory
+ * @property {NodeJS.Timeout | null} loop
+ * @property {import("../src/shared/protocol").MatchRecording | null} recording
+ */
+
+const RESPAWN_DELAY = 3000; // Milliseconds before a dead player respawns
+const LATENCY_PING_INTERVAL = TICK_RATE; // Ticks between round trip probes
+const SNAPSHOT_HISTORY = TICK_RATE; // Ticks of snapshots kept as delta baselines
+const MAX_QUEUED_INPUTS = 8; // Inputs buffered per player before old ones are dropped
+const MAX_REPEATED_INPUTS = Math.ceil(TICK_RATE / 10); // Ticks (about 100ms of snapshots) the last input covers for missing ones before the player stands still
+const RECONNECT_GRACE_PERIOD = 30000; // Milliseconds a disconnected player is held
+const SNAPSHOT_ENCODING =
+  process.env.SNAPSHOT_ENCODING === "json" ? "json" : "binary";
+const WARMUP_DURATION = Number(process.env.MATCH_WARMUP || 10) * 1000; // Milliseconds of warmup, MATCH_WARMUP sets it in seconds
+const OVERTIME_DURATION = 60000; // Milliseconds overtime may last before a draw
+const AFK_TIMEOUT = Number(process.env.MATCH_AFK_TIMEOUT || 60) * 1000; // Milliseconds without input before a kick, MATCH_AFK_TIMEOUT sets it in seconds (0 never kicks)
+const AFK_WARNING_PERIOD = Math.min(15000, AFK_TIMEOUT / 2); // Milliseconds an idle player is warned before the kick
+const AFK_ACTION =
+  process.env.MATCH_AFK_ACTION === "kick" ? "kick" : "spectate";
+const MAX_SPECTATORS = 32; // Spectators one match takes
+const KEYFRAME_INTERVAL = TICK_RATE; // Ticks between keyframes in the recording
+
+// Limits a lobby's matches are played to, 0 meaning no limit, and the
+// rules they're played by. The default limits can be changed with
+// MATCH_TIME_LIMIT (seconds) and MATCH_KILL_LIMIT.
+const DEFAULT_MATCH_SETTINGS = {
+  timeLimit: Number(process.env.MATCH_TIME_LIMIT || 300) * 1000, // Milliseconds of live play
+  killLimit: Number(process.env.MATCH_KILL_LIMIT || 20), // Kills that win the match
+  map: MAPS[0],
+  friendlyFire: true, // Matches are free-for-all, so every player's bullets hurt everyone else
+};
+
+// Create a new match for a lobby that is about to start, played to the
+// lobby's settings. `onEmpty` is called once nobody is connected to the match
+// and no disconnected player can return; `onFinished` with the results once
+// the match has ended.
+function createMatch(io, lobby, onEmpty, onFinished) {
+  // Remember who is allowed into this match and where they spawn
+  const roster = new Map();
+  const members = Array.from(lobby.players.values()).concat(lobby.bots);
+  members.forEach((player, index) => {
+    roster.set(normalizeAddress(player.address), {
+      address: player.address,
+      spawnPointIndex: index % SPAWN_POINTS.length,
+      slot: index, // Compact player ID used in binary snapshots
+      // Bots can't be joined, so they get no token
+      sessionToken: player.difficulty
+        ? null
+        : crypto.randomBytes(16).toString("hex"),
+      expired: false, // Set once a disconnected player's grace period ran out
+      kicked: false, // Set if the player was kicked and may not rejoin
+    });
+  });
+
+  /** @type {Match} */
+  const match = {
+    id: lobby.id,
+    room: `match_${lobby.id}`,
+    io: io,
+    roster: roster, // Map of normalized addresses to roster entries
+    players: {}, // Map of socket IDs to in-game player state
+    spectators: new Map(), // Map of spectator socket IDs to their snapshot acks
+    suspended: new Map(), // Map of normalized addresses to disconnected players
+    onEmpty: onEmpty,
+    onFinished: onFinished,
+    settings: { ...lobby.settings }, // Time and kill limits, map and friendly fire
+    phase: "warmup", // warmup, live, overtime or finished
+    phaseEndsAt: Date.now() + WARMUP_DURATION, // Null if the phase has no time limit
+    respawnTimers: new Map(), // Map of socket IDs to respawn timeouts
+    bullets: new Map(), // Map of bullet IDs to live bullets
+    nextBulletId: 1,
+    nextBulletNetId: 1, // Compact bullet IDs used in binary snapshots
+    nextPingId: 1,
+    history: createHitboxHistory(), // Recent player positions for rewinding
+    tick: 0, // Number of simulation ticks run so far
+    snapshotHistory: new Map(), // Map of ticks to the snapshot state sent
+    loop: null, // Fixed-rate match loop interval
+    recording: null, // Log of the match for replays, see replays.js
+  };
+  match.recording = createRecording(match, TICK_RATE);
+
+  // Bots are in the match from the start, under their lobby IDs
+  lobby.bots.forEach((bot) => {
+    const player = createPlayer(
+      bot.id,
+      roster.get(normalizeAddress(bot.address))
+    );
+    player.bot = createBot(bot.difficulty);
+    match.players[bot.id] = player;
+    recordMatchEvent(match, "join", toReplayState(player));
+  });
+
+  match.loop = setInterval(() => stepMatch(match), 1000 / TICK_RATE);
+
+  console.log(
+    `Created match ${match.id} for ${roster.size} players (${lobby.bots.length} bots)`
+  );
+  return match;
+}
+
+// Session token a roster member must present to join the match
+function getSessionToken(match, playerAddress) {
+  const rosterEntry = match.roster.get(normalizeAddress(playerAddress));
+  return rosterEntry ? rosterEntry.sessionToken : null;
+}
+
+// True if a session token can still be used to join the match
+function isSessionAlive(match, sessionToken) {
+  return Array.from(match.roster.values()).some(
+    (entry) => entry.sessionToken === sessionToken && !entry.expired
+  );
+}
+
+// True if a session token belongs to the roster, even an expired or kicked
+// entry. Players keep watching a private match this way.
+function isRosterSession(match, sessionToken) {
+  return Array.from(match.roster.values()).some(
+    (entry) => entry.sessionToken === sessionToken
+  );
+}
+
+// Add a connected game socket to the match, if its address is on the roster
+// and it holds that roster entry's session token. A player held after a
+// disconnect is resumed; a player still connected elsewhere is taken over.
+function addPlayerToMatch(match, socket, playerAddress, sessionToken) {
+  const addressKey = normalizeAddress(playerAddress);
+  const rosterEntry = match.roster.get(addressKey);
+  if (!rosterEntry) {
+    return { error: "You are not part of this match" };
+  }
+  if (sessionToken !== rosterEntry.sessionToken) {
+    return { error: "Invalid match session" };
+  }
+  if (rosterEntry.kicked) {
+    return { error: "You were kicked from this match" };
+  }
+  if (rosterEntry.expired) {
+    return { error: "Your match session has expired" };
+  }
+
+  // Only one game socket per roster entry - the newest one wins
+  const previous = Object.values(match.players).find(
+    (player) => player.address === rosterEntry.address
+  );
+  if (previous) {
+    match.io
+      .to(previous.playerId)
+      .emit("match-join-failed", { reason: "Joined from another window" });
+    match.io.in(previous.playerId).socketsLeave(match.room);
+    suspendPlayer(match, previous.playerId);
+  }
+
+  const held = match.suspended.get(addressKey);
+  let player;
+  if (held) {
+    clearTimeout(held.timer);
+    match.suspended.delete(addressKey);
+    player = resumePlayer(held.player, socket.id);
+  } else {
+    player = createPlayer(socket.id, rosterEntry);
+  }
+
+  match.players[socket.id] = player;
+  socket.join(match.room);
+  recordMatchEvent(match, "join", toReplayState(player));
+
+  console.log(
+    `Player ${socket.id} (${rosterEntry.address}) ${
+      held ? "rejoined" : "joined"
+    } match ${match.id}`
+  );
+
+  // Send the current players to the new player
+  const currentPlayers = {};
+  Object.values(match.players).forEach((matchPlayer) => {
+    currentPlayers[matchPlayer.playerId] = toMatchPlayer(matchPlayer);
+  });
+  socket.emit("currentPlayers", currentPlayers);
+  socket.emit("match-phase", toPhasePayload(match, Date.now()));
+
+  // Inform the other members of this match about the new player
+  socket.to(match.room).emit("newPlayer", toMatchPlayer(player));
+
+  // A player who left while dead missed their respawn
+  if (player.isDead) {
+    respawnPlayer(match, socket.id);
+  }
+
+  return { player };
+}
+
+// Fresh in-game state for a roster entry
+function createPlayer(socketId, rosterEntry) {
+  const spawnPoint = SPAWN_POINTS[rosterEntry.spawnPointIndex];
+
+  return {
+    x: spawnPoint.x,
+    y: spawnPoint.y,
+    playerId: socketId,
+    address: rosterEntry.address,
+    spawnPointIndex: rosterEntry.spawnPointIndex,
+    slot: rosterEntry.slot,
+    flipX: false,
+    health: MAX_HEALTH,
+    isDead: false, // Death state
+    lastHitBy: null, // Track who hit this player last
+    respawning: false, // Track if player is in respawn cooldown
+    invulnerableUntil: Date.now() + SPAWN_INVULNERABILITY,
+    kills: 0,
+    deaths: 0,
+    shotsFired: 0,
+    shotsHit: 0, // Shots that damaged another player
+    animation: "noot_idle", // Animation key derived from the player's movement
+    physics: createPhysicsState(),
+    inputs: [], // Input commands waiting for a tick, oldest first
+    lastInput: IDLE_INPUT, // Repeated on ticks without a new input
+    missedInputs: 0, // Ticks in a row that had no new input
+    lastProcessedSeq: 0, // Sequence number of the last input applied
+    fireCooldown: 0, // Ticks until the player can fire again
+    rtt: null, // Smoothed round trip time in milliseconds, once measured
+    pendingPings: new Map(), // Map of latencyPing IDs to when they were sent
+    snapshotAck: 0, // Last snapshot tick the client acknowledged
+    lastActiveAt: Date.now(), // When the player last pressed anything
+    afkWarned: false, // Whether the player was sent an afk-warning
+    replayInput: null, // Movement keys last written to the recording
+    bot: null, // AI state if the server plays this player, see bots.js
+  };
+}
+
+// Move a held player over to a new socket, resetting per-connection state
+function resumePlayer(player, socketId) {
+  player.playerId = socketId;
+  player.inputs = [];
+  player.lastInput = IDLE_INPUT;
+  player.missedInputs = 0;
+  player.lastProcessedSeq = 0;
+  player.rtt = null;
+  player.pendingPings = new Map();
+  player.snapshotAck = 0;
+  player.lastActiveAt = Date.now();
+  player.afkWarned = false;
+  player.replayInput = null;
+  return player;
+}
+
+// Let a game socket watch the match
+function addSpectator(match, socket) {
+  if (match.spectators.size >= MAX_SPECTATORS) {
+    return { error: "This match has too many spectators" };
+  }
+
+  match.spectators.set(socket.id, { snapshotAck: 0 });
+  socket.join(match.room);
+  console.log(`Spectator ${socket.id} is watching match ${match.id}`);
+
+  sendMatchState(match, socket.id, null);
+  return {};
+}
+
+// Turn a player into a spectator, keeping their socket in the match room.
+// Like a kicked player, they can't rejoin as a player.
+function movePlayerToSpectators(match, socketId, reason) {
+  if (!removeFromPlay(match, socketId)) return;
+
+  match.spectators.set(socketId, { snapshotAck: 0 });
+  console.log(
+    `Moved player ${socketId} to the spectators of match ${match.id}: ${reason}`
+  );
+
+  sendMatchState(match, socketId, reason);
+  checkMatchEmpty(match);
+}
+
+// Tell a new spectator who is playing and how far along the match is
+function sendMatchState(match, socketId, reason) {
+  const currentPlayers = {};
+  Object.values(match.players).forEach((matchPlayer) => {
+    currentPlayers[matchPlayer.playerId] = toMatchPlayer(matchPlayer);
+  });
+
+  const target = match.io.to(socketId);
+  target.emit("spectating", { reason: reason });
+  target.emit("currentPlayers", currentPlayers);
+  target.emit("match-phase", toPhasePayload(match, Date.now()));
+}
+
+// Remove a game socket from the match. The player is held for the grace
+// period in case the same wallet reconnects.
+function removePlayerFromMatch(match, socketId) {
+  if (match.spectators.delete(socketId)) return;
+  if (!match.players[socketId]) return;
+
+  suspendPlayer(match, socketId);
+  checkMatchEmpty(match);
+}
+
+// Take a player out of the running match and hold their state
+function suspendPlayer(match, socketId) {
+  const player = match.players[socketId];
+
+  // Cancel any pending respawn for this player
+  const respawnTimer = match.respawnTimers.get(socketId);
+  if (respawnTimer) {
+    clearTimeout(respawnTimer);
+    match.respawnTimers.delete(socketId);
+  }
+
+  delete match.players[socketId];
+  recordMatchEvent(match, "leave", { slot: player.slot });
+
+  const addressKey = normalizeAddress(player.address);
+  const timer = setTimeout(
+    () => expireSuspendedPlayer(match, addressKey),
+    RECONNECT_GRACE_PERIOD
+  );
+  match.suspended.set(addressKey, { player: player, timer: timer });
+
+  console.log(
+    `Holding player ${socketId} (${player.address}) in match ${match.id}`
+  );
+
+  // Inform the remaining members of this match
+  broadcastToMatch(match, "playerDisconnected", socketId);
+}
+
+// Remove a player from the match for good and close their connection
+function kickPlayer(match, socketId, reason) {
+  const player = removeFromPlay(match, socketId);
+  if (!player) return;
+
+  console.warn(
+    `Kicked player ${socketId} (${player.address}) from match ${match.id}: ${reason}`
+  );
+
+  match.io.to(socketId).emit("kicked", { reason: reason });
+  match.io.in(socketId).disconnectSockets(true);
+
+  checkMatchEmpty(match);
+}
+
+// Take a player out of the match for good. Returns the removed player, or
+// null if the socket wasn't playing.
+function removeFromPlay(match, socketId) {
+  const player = match.players[socketId];
+  if (!player) return null;
+
+  const respawnTimer = match.respawnTimers.get(socketId);
+  if (respawnTimer) {
+    clearTimeout(respawnTimer);
+    match.respawnTimers.delete(socketId);
+  }
+
+  delete match.players[socketId];
+  recordMatchEvent(match, "leave", { slot: player.slot });
+
+  // The session token can't be used to come back
+  const rosterEntry = match.roster.get(normalizeAddress(player.address));
+  rosterEntry.kicked = true;
+  rosterEntry.expired = true;
+
+  broadcastToMatch(match, "playerDisconnected", socketId);
+  return player;
+}
+
+// Drop a disconnected player for good once their grace period is over
+function expireSuspendedPlayer(match, addressKey) {
+  const held = match.suspended.get(addressKey);
+  if (!held) return;
+
+  match.suspended.delete(addressKey);
+  match.roster.get(addressKey).expired = true;
+  console.log(`Session of ${held.player.address} in match ${match.id} expired`);
+
+  checkMatchEmpty(match);
+}
+
+// Notify the owner once nobody is connected or able to come back. Bots
+// don't keep a match going on their own.
+function checkMatchEmpty(match) {
+  const humans = Object.values(match.players).filter((player) => !player.bot);
+  if (humans.length > 0 || match.suspended.size > 0) {
+    return;
+  }
+
+  if (match.onEmpty) {
+    match.onEmpty();
+  }
+}
+
+// Stop every timer owned by the match so it can be discarded
+function disposeMatch(match) {
+  clearInterval(match.loop);
+  match.loop = null;
+  match.respawnTimers.forEach((timer) => clearTimeout(timer));
+  match.respawnTimers.clear();
+  match.suspended.forEach((held) => clearTimeout(held.timer));
+  match.suspended.clear();
+  match.spectators.clear();
+  match.bullets.clear();
+  match.io.in(match.room).socketsLeave(match.room);
+  match.snapshotHistory.clear();
+  saveRecording(match.recording, match.tick);
+  console.log(`Disposed match ${match.id}`);
+}
+
+// Public view of a player, as sent in currentPlayers and newPlayer
+function toMatchPlayer(player) {
+  return {
+    playerId: player.playerId,
+    address: player.address,
+    slot: player.slot,
+    x: player.x,
+    y: player.y,
+    flipX: player.flipX,
+    health: player.health,
+    isDead: player.isDead,
+    kills: player.kills,
+    animation: player.animation,
+    bot: Boolean(player.bot),
+  };
+}
+
+// State of a player as written to the recording on joins and keyframes
+function toReplayState(player) {
+  return {
+    slot: player.slot,
+    x: player.x,
+    y: player.y,
+    velocityX: player.physics.velocityX,
+    velocityY: player.physics.velocityY,
+    onGround: player.physics.onGround,
+    flipX: player.flipX,
+    health: player.health,
+    isDead: player.isDead,
+    kills: player.kills,
+    deaths: player.deaths,
+  };
+}
+
+/**
+ * Add an event to the match recording, as part of the current tick
+ * @param {Match} match
+ * @param {import("../src/shared/protocol").ReplayEvent["type"]} type
+ * @param {object} data
+ */
+function recordMatchEvent(match, type, data) {
+  recordEvent(match.recording, match.tick, type, data);
+}
+
+// Write every player's full state and the bullets in flight to the
+// recording, so a replay can be seeked to here
+function recordKeyframe(match) {
+  recordMatchEvent(match, "keyframe", {
+    phase: match.phase,
+    players: Object.values(match.players).map((player) => ({
+      ...toReplayState(player),
+      keys: player.replayInput,
+    })),
+    bullets: Array.from(match.bullets.values()).map((bullet) => ({
+      bullet: bullet.netId,
+      slot: bullet.ownerSlot,
+      x: bullet.x,
+      y: bullet.y,
+      velocityX: bullet.velocityX,
+    })),
+  });
+}
+
+/**
+ * Send an event to every socket in the match room
+ * @template {keyof import("../src/shared/protocol").ServerToClientEvents} E
+ * @param {Match} match
+ * @param {E} event
+ * @param {Parameters<import("../src/shared/protocol").ServerToClientEvents[E]>[0]} data
+ */
+function broadcastToMatch(match, event, data) {
+  match.io.to(match.room).emit(event, data);
+}
+
+// Socket IDs of the players a match chat message reaches
+function getChatRecipients(match) {
+  return Object.values(match.players)
+    .filter((player) => !player.bot)
+    .map((player) => player.playerId);
+}
+
+// Spawn a bullet for a player using the server's view of their position
+function spawnBullet(match, playerId, clientBulletId) {
+  const player = match.players[playerId];
+  if (!player || player.isDead) return null;
+
+  // Keep the shooter's ID so its locally drawn bullet can be matched up.
+  // It goes under the shooter's player ID, so a client can't pick the ID of
+  // someone else's bullet or one the server named.
+  let bulletId =
+    typeof clientBulletId === "string" && clientBulletId.length <= 64
+      ? `${playerId}:${clientBulletId}`
+      : null;
+  if (!bulletId || match.bullets.has(bulletId)) {
+    bulletId = `server_bullet_${match.nextBulletId++}`;
+  }
+
+  const bullet = {
+    ...createBullet(player.x, player.y, player.flipX, Date.now()),
+    bulletId: bulletId,
+    netId: match.nextBulletNetId++ & 0xffff,
+    ownerId: playerId,
+    ownerSlot: player.slot, // Shooter in the recording, where IDs don't last
+    // Targets are checked where the shooter saw them when firing
+    rewind: getRewindAmount(player.rtt || 0),
+  };
+
+  match.bullets.set(bulletId, bullet);
+  recordMatchEvent(match, "shot", {
+    bullet: bullet.netId,
+    slot: player.slot,
+    x: bullet.x,
+    y: bullet.y,
+    velocityX: bullet.velocityX,
+  });
+
+  // Let the other players draw the bullet
+  match.io.to(match.room).except(playerId).emit("bulletCreated", {
+    bulletId: bullet.bulletId,
+    x: bullet.x,
+    y: bullet.y,
+    velocityX: bullet.velocityX,
+    playerId: playerId,
+  });
+
+  return bullet;
+}
+
+// Buffer an input command until a tick applies it
+function queueInput(match, playerId, input) {
+  const player = match.players[playerId];
+
+  if (!player) return;
+
+  // Any key held counts as activity, even while dead
+  if (input.left || input.right || input.jump || input.fire) {
+    markPlayerActive(match, player);
+  }
+
+  // Skip if player is dead
+  if (player.isDead) return;
+
+  // Old inputs are stale anyway, and each applied input moves the player
+  // for a full tick, so a client can't get ahead by sending faster
+  player.inputs.push(input);
+  if (player.inputs.length > MAX_QUEUED_INPUTS) {
+    player.inputs.shift();
+  }
+}
+
+// Reset a player's idle time, taking back any afk-warning
+function markPlayerActive(match, player) {
+  player.lastActiveAt = Date.now();
+  if (player.afkWarned) {
+    player.afkWarned = false;
+    match.io.to(player.playerId).emit("afk-warning", { timeLeft: null });
+  }
+}
+
+// Warn players who have been idle for a while and kick those idle too long
+function checkIdlePlayers(match, now) {
+  if (AFK_TIMEOUT === 0 || match.phase === "finished") return;
+
+  Object.values(match.players).forEach((player) => {
+    if (player.bot) return;
+
+    const idleFor = now - player.lastActiveAt;
+    if (idleFor >= AFK_TIMEOUT && AFK_ACTION === "kick") {
+      kickPlayer(match, player.playerId, "Idle for too long");
+    } else if (idleFor >= AFK_TIMEOUT) {
+      movePlayerToSpectators(match, player.playerId, "Idle for too long");
+    } else if (
+      !player.afkWarned &&
+      idleFor >= AFK_TIMEOUT - AFK_WARNING_PERIOD
+    ) {
+      player.afkWarned = true;
+      match.io.to(player.playerId).emit("afk-warning", {
+        timeLeft: AFK_TIMEOUT - idleFor,
+      });
+    }
+  });
+}
+
+// Handle a player's answer to a latencyPing
+function recordLatency(match, playerId, pongData) {
+  const player = match.players[playerId];
+  if (!player || !pongData) return;
+
+  recordPong(player, pongData.id, Date.now());
+}
+
+// Remember the newest snapshot a player or spectator has decoded, for delta
+// encoding
+function acknowledgeSnapshot(match, playerId, ackData) {
+  const receiver = match.players[playerId] || match.spectators.get(playerId);
+  if (!receiver || !ackData) return;
+
+  if (ackData.tick > receiver.snapshotAck && ackData.tick <= match.tick) {
+    receiver.snapshotAck = ackData.tick;
+  }
+}
+
+// Run one fixed tick: gather inputs, advance bullets, broadcast the snapshot
+function stepMatch(match) {
+  const now = Date.now();
+  match.tick++;
+
+  queueBotInputs(match, now);
+  Object.values(match.players).forEach((player) =>
+    applyNextInput(match, player)
+  );
+
+  recordHistoryFrame(match.history, now, match.players);
+
+  match.bullets.forEach((bullet) =>
+    stepMatchBullet(match, bullet, TICK_DELTA, now)
+  );
+
+  sendSnapshots(match, now);
+
+  if (match.tick % KEYFRAME_INTERVAL === 0) {
+    recordKeyframe(match);
+  }
+
+  // Periodically measure every player's round trip time
+  if (match.tick % LATENCY_PING_INTERVAL === 0) {
+    const pingId = match.nextPingId++;
+    Object.values(match.players).forEach((player) => {
+      if (!player.bot) recordPingSent(player, pingId, now);
+    });
+    broadcastToMatch(match, "latencyPing", { id: pingId });
+  }
+
+  updatePhase(match, now);
+  checkIdlePlayers(match, now);
+}
+
+// Let every bot decide on its input for this tick
+function queueBotInputs(match, now) {
+  const players = Object.values(match.players);
+
+  players.forEach((player) => {
+    if (!player.bot) return;
+
+    const others = players.filter((other) => other !== player);
+    queueInput(
+      match,
+      player.playerId,
+      getBotInput(player.bot, player, others, now)
+    );
+  });
+}
+
+// Move the match on once its phase ran out of time or someone won
+function updatePhase(match, now) {
+  const timeUp = match.phaseEndsAt !== null && now >= match.phaseEndsAt;
+  const leader = getLeader(match);
+
+  switch (match.phase) {
+    case "warmup":
+      if (timeUp) startLivePhase(match, now);
+      break;
+
+    case "live":
+      if (
+        leader &&
+        match.settings.killLimit > 0 &&
+        leader.kills >= match.settings.killLimit
+      ) {
+        finishMatch(match, "kill-limit", leader);
+      } else if (timeUp && leader) {
+        finishMatch(match, "time-limit", leader);
+      } else if (timeUp) {
+        setPhase(match, "overtime", now, OVERTIME_DURATION);
+      }
+      break;
+
+    case "overtime":
+      // The first kill that breaks the tie wins
+      if (leader) {
+        finishMatch(match, "overtime", leader);
+      } else if (timeUp) {
+        finishMatch(match, "time-limit", null);
+      }
+      break;
+  }
+}
+
+// Switch to a new phase and tell the match how long it lasts
+function setPhase(match, phase, now, duration) {
+  match.phase = phase;
+  match.phaseEndsAt = duration > 0 ? now + duration : null;
+
+  console.log(`Match ${match.id} is now in ${phase}`);
+  broadcastToMatch(match, "match-phase", toPhasePayload(match, now));
+
+  // Warmup scores are gone once the match goes live
+  recordMatchEvent(match, "phase", { phase: phase });
+  recordKeyframe(match);
+}
+
+// End the warmup: clear its scores and bullets and respawn everyone
+function startLivePhase(match, now) {
+  getAllPlayers(match).forEach((player) => {
+    player.kills = 0;
+    player.deaths = 0;
+    player.shotsFired = 0;
+    player.shotsHit = 0;
+  });
+
+  match.bullets.forEach((bullet) => destroyBullet(match, bullet, "expired"));
+
+  Object.keys(match.players).forEach((playerId) => {
+    const respawnTimer = match.respawnTimers.get(playerId);
+    if (respawnTimer) {
+      clearTimeout(respawnTimer);
+      match.respawnTimers.delete(playerId);
+    }
+    respawnPlayer(match, playerId);
+  });
+
+  setPhase(match, "live", now, match.settings.timeLimit);
+}
+
+// Stop the match and send everyone the results
+function finishMatch(match, reason, winner) {
+  match.phase = "finished";
+  match.phaseEndsAt = null;
+  clearInterval(match.loop);
+  match.loop = null;
+
+  const results = {
+    matchId: match.recording.matchId,
+    reason: reason,
+    winner: winner ? winner.address : null,
+    players: getStandings(match).map((player) => ({
+      playerId: player.playerId,
+      address: player.address,
+      kills: player.kills,
+      deaths: player.deaths,
+      shotsFired: player.shotsFired,
+      shotsHit: player.shotsHit,
+      accuracy: player.shotsFired > 0 ? player.shotsHit / player.shotsFired : 0,
+      bot: Boolean(player.bot),
+    })),
+  };
+
+  console.log(
+    `Match ${match.id} finished (${reason}), winner: ${
+      results.winner || "draw"
+    }`
+  );
+  broadcastToMatch(match, "match-ended", results);
+  recordMatchEvent(match, "end", results);
+
+  if (match.onFinished) {
+    match.onFinished(results);
+  }
+}
+
+// Phase details as sent in match-phase
+function toPhasePayload(match, now) {
+  return {
+    phase: match.phase,
+    timeLeft:
+      match.phaseEndsAt === null ? null : Math.max(0, match.phaseEndsAt - now),
+  };
+}
+
+// Public view of a match, for players looking for one to watch
+function getMatchSummary(match) {
+  return {
+    lobbyId: match.id,
+    players: getStandings(match).map((player) => ({
+      address: player.address,
+      kills: player.kills,
+      bot: Boolean(player.bot),
+    })),
+    phase: match.phase,
+    timeLeft: toPhasePayload(match, Date.now()).timeLeft,
+    spectators: match.spectators.size,
+  };
+}
+
+// Players in the match and players held after a disconnect
+function getAllPlayers(match) {
+  return Object.values(match.players).concat(
+    Array.from(match.suspended.values()).map((held) => held.player)
+  );
+}
+
+// All players, most kills first and fewer deaths breaking ties
+function getStandings(match) {
+  return getAllPlayers(match).sort(
+    (a, b) => b.kills - a.kills || a.deaths - b.deaths
+  );
+}
+
+// The player with the most kills, or null while the top is tied
+function getLeader(match) {
+  const [first, second] = getStandings(match);
+  if (!first || (second && second.kills === first.kills)) return null;
+  return first;
+}
+
+// Move a player by their next input, or repeat their last one if nothing
+// arrived in time. A client that stops sending altogether is only covered
+// for MAX_REPEATED_INPUTS ticks, then left idle.
+function applyNextInput(match, player) {
+  if (player.isDead) {
+    player.inputs = [];
+    return;
+  }
+
+  let input = player.inputs.shift();
+  if (input) {
+    player.lastInput = input;
+    player.lastProcessedSeq = input.seq;
+    player.missedInputs = 0;
+  } else if (player.missedInputs < MAX_REPEATED_INPUTS) {
+    player.missedInputs++;
+    input = { ...player.lastInput, fire: false };
+  } else {
+    input = IDLE_INPUT;
+  }
+
+  recordInput(match, player, input);
+  stepPlayer(player, input, TICK_DELTA);
+
+  if (player.fireCooldown > 0) player.fireCooldown--;
+  if (input.fire && player.fireCooldown === 0) {
+    if (spawnBullet(match, player.playerId, input.bulletId)) {
+      player.shotsFired++;
+    }
+    player.fireCooldown = FIRE_INTERVAL_TICKS;
+  }
+}
+
+// Write the keys a player moves with this tick to the recording, if they
+// changed. Shots are recorded as they're spawned, and only the side the
+// player aims at matters for movement.
+function recordInput(match, player, input) {
+  const keys = {
+    left: Boolean(input.left),
+    right: Boolean(input.right),
+    jump: Boolean(input.jump),
+    flipX: Math.cos(input.aim) < 0,
+  };
+
+  const last = player.replayInput;
+  if (
+    last &&
+    last.left === keys.left &&
+    last.right === keys.right &&
+    last.jump === keys.jump &&
+    last.flipX === keys.flipX
+  ) {
+    return;
+  }
+
+  player.replayInput = keys;
+  recordMatchEvent(match, "input", { slot: player.slot, ...keys });
+}
+
+// Send this tick's snapshot to every player and spectator in the configured
+// encoding
+function sendSnapshots(match, now) {
+  if (SNAPSHOT_ENCODING === "json") {
+    broadcastToMatch(match, "snapshot", buildSnapshot(match, now));
+    return;
+  }
+
+  const state = createSnapshotState(
+    match.tick,
+    now,
+    Object.values(match.players),
+    Array.from(match.bullets.values())
+  );
+
+  match.snapshotHistory.set(match.tick, state);
+  match.snapshotHistory.delete(match.tick - SNAPSHOT_HISTORY);
+
+  Object.values(match.players).forEach((player) => {
+    if (player.bot) return;
+
+    // Fall back to a full snapshot if the last ack is too old
+    const baseline = match.snapshotHistory.get(player.snapshotAck) || null;
+    const data = encodeSnapshot(state, baseline, {
+      ack: player.lastProcessedSeq,
+      velocityX: player.physics.velocityX,
+      velocityY: player.physics.velocityY,
+      onGround: player.physics.onGround,
+    });
+    match.io.to(player.playerId).emit("snapshotData", data);
+  });
+
+  // Spectators have no inputs to acknowledge
+  match.spectators.forEach((spectator, socketId) => {
+    const baseline = match.snapshotHistory.get(spectator.snapshotAck) || null;
+    const data = encodeSnapshot(state, baseline, {
+      ack: 0,
+      velocityX: 0,
+      velocityY: 0,
+      onGround: false,
+    });
+    match.io.to(socketId).emit("snapshotData", data);
+  });
+}
+
+// Compact view of the world sent to every client once per tick
+function buildSnapshot(match, now) {
+  const players = Object.values(match.players).map((player) => ({
+    playerId: player.playerId,
+    x: roundPosition(player.x),
+    y: roundPosition(player.y),
+    flipX: player.flipX,
+    health: player.health,
+    isDead: player.isDead,
+    respawning: player.respawning,
+    animation: player.animation,
+    ack: player.lastProcessedSeq,
+    velocityX: player.physics.velocityX,
+    velocityY: player.physics.velocityY,
+    onGround: player.physics.onGround,
+  }));
+
+  const bullets = Array.from(match.bullets.values()).map((bullet) => ({
+    bulletId: bullet.bulletId,
+    x: roundPosition(bullet.x),
+    y: roundPosition(bullet.y),
+  }));
+
+  /** @type {Record<string, number>} */
+  const scores = {};
+  Object.values(match.players).forEach((player) => {
+    scores[player.playerId] = player.kills;
+  });
+
+  return {
+    tick: match.tick,
+    time: now,
+    players: players,
+    bullets: bullets,
+    scores: scores,
+  };
+}
+
+// Positions are sent with one decimal place
+function roundPosition(value) {
+  return Math.round(value * 10) / 10;
+}
+
+// Move one bullet and resolve whatever it hit
+function stepMatchBullet(match, bullet, deltaSeconds, now) {
+  const stopped = stepBullet(bullet, deltaSeconds, now, (box) =>
+    findBulletTarget(match, bullet, box, now)
+  );
+  if (!stopped) return;
+
+  if (!stopped.target) {
+    destroyBullet(match, bullet, stopped.reason);
+    return;
+  }
+
+  const target = stopped.target;
+  console.log(
+    `LAG COMP: Bullet ${bullet.bulletId} from ${bullet.ownerId} hit ${target.playerId}, rewound ${bullet.rewind}ms`
+  );
+  destroyBullet(match, bullet, "player", target.playerId);
+  damagePlayer(match, target.playerId, bullet.ownerId, now);
+}
+
+// Find the player a bullet box overlaps, with every target rewound to where
+// the shooter saw them. Players must still be alive now to be hit.
+function findBulletTarget(match, bullet, box, now) {
+  const rewoundTime = now - bullet.rewind;
+
+  return Object.values(match.players).find((player) => {
+    if (player.playerId === bullet.ownerId || player.isDead) return false;
+
+    const state =
+      getHistoricalState(match.history, player.playerId, rewoundTime) || player;
+    if (state.isDead) return false;
+
+    return boxesOverlap(box, playerBox(state.x, state.y));
+  });
+}
+
+// Remove a bullet and tell the match where and why it stopped
+function destroyBullet(match, bullet, reason, hitPlayerId) {
+  match.bullets.delete(bullet.bulletId);
+  recordMatchEvent(match, "bullet-end", {
+    bullet: bullet.netId,
+    x: bullet.x,
+    y: bullet.y,
+    reason: reason,
+  });
+
+  broadcastToMatch(match, "bulletDestroyed", {
+    bulletId: bullet.bulletId,
+    x: bullet.x,
+    y: bullet.y,
+    reason: reason,
+    playerId: hitPlayerId || null,
+  });
+}
+
+// Apply one point of bullet damage to a player
+function damagePlayer(match, targetId, shooterId, now) {
+  const target = match.players[targetId];
+
+  // Dead and freshly spawned players can't be hurt
+  if (!target || !applyBulletDamage(target, now)) return;
+
+  // Record who hit this player
+  target.lastHitBy = shooterId;
+  if (match.players[shooterId]) {
+    match.players[shooterId].shotsHit++;
+  }
+
+  console.log(
+    `BULLET HIT: Player ${targetId} hit by ${shooterId}, health ${target.health}`
+  );
+
+  recordMatchEvent(match, "damage", {
+    slot: target.slot,
+    shooter: match.players[shooterId]?.slot ?? null,
+    health: target.health,
+  });
+
+  // Broadcast damage to the match
+  broadcastToMatch(match, "playerDamaged", {
+    playerId: targetId,
+    health: target.health,
+    shooterId: shooterId,
+  });
+
+  if (target.health === 0) {
+    handlePlayerDeath(match, targetId, shooterId);
+  }
+}
+
+// Helper function to handle player death
+function handlePlayerDeath(match, playerId, killerId) {
+  const players = match.players;
+
+  console.log(`SERVER: handlePlayerDeath called for ${playerId}`);
+  console.log(
+    `SERVER: Player state - Health: ${players[playerId]?.health}, IsDead: ${players[playerId]?.isDead}`
+  );
+
+  if (!players[playerId] || players[playerId].isDead) {
+    console.log(
+      `SERVER: Death handling aborted - Player doesn't exist or is already dead`
+    );
+    return;
+  }
+
+  // Mark player as dead
+  players[playerId].isDead = true;
+  players[playerId].health = 0;
+  players[playerId].respawning = true;
+  players[playerId].deaths += 1;
+
+  console.log(
+    `SERVER: Player ${playerId} marked as dead, emitting playerDied event`
+  );
+
+  recordMatchEvent(match, "death", {
+    slot: players[playerId].slot,
+    killer: killerId && players[killerId] ? players[killerId].slot : null,
+  });
+
+  // Broadcast death to the match
+  broadcastToMatch(match, "playerDied", {
+    playerId: playerId,
+    killedBy: killerId,
+    time: Date.now(),
+  });
+
+  // Auto-respawn after a short delay
+  const respawnTimer = setTimeout(() => {
+    match.respawnTimers.delete(playerId);
+
+    if (players[playerId] && players[playerId].isDead) {
+      respawnPlayer(match, playerId);
+      console.log(`SERVER: Sent playerRespawned event for ${playerId}`);
+    } else {
+      console.log(
+        `SERVER: Player ${playerId} no longer exists or is not dead - skipping respawn`
+      );
+    }
+  }, RESPAWN_DELAY);
+  match.respawnTimers.set(playerId, respawnTimer);
+
+  if (killerId && players[killerId]) {
+    players[killerId].kills += 1;
+    console.log(`Player ${killerId} now has ${players[killerId].kills} kills`);
+  }
+}
+
+// Reset a player at their next spawn point and tell the match about it
+function respawnPlayer(match, playerId) {
+  const player = match.players[playerId];
+  if (!player) return;
+
+  // Alternate spawn points for fairness
+  player.spawnPointIndex = (player.spawnPointIndex + 1) % SPAWN_POINTS.length;
+  const spawnPoint = SPAWN_POINTS[player.spawnPointIndex];
+  player.x = spawnPoint.x;
+  player.y = spawnPoint.y;
+
+  // Reset player state
+  player.health = MAX_HEALTH;
+  player.isDead = false;
+  player.respawning = false;
+  player.invulnerableUntil = Date.now() + SPAWN_INVULNERABILITY;
+  player.inputs = [];
+  player.physics = createPhysicsState();
+
+  recordMatchEvent(match, "respawn", {
+    slot: player.slot,
+    x: player.x,
+    y: player.y,
+  });
+
+  // Broadcast respawn to the match
+  broadcastToMatch(match, "playerRespawned", {
+    playerId: playerId,
+    x: player.x,
+    y: player.y,
+  });
+}
+
+module.exports = {
+  DEFAULT_MATCH_SETTINGS,
+  createMatch,
+  getSessionToken,
+  isSessionAlive,
+  isRosterSession,
+  addPlayerToMatch,
+  addSpectator,
+  getMatchSummary,
+  removePlayerFromMatch,
+  disposeMatch,
+  broadcastToMatch,
+  getChatRecipients,
+  kickPlayer,
+  queueInput,
+  recordLatency,
+  acknowledgeSnapshot,
+  respawnPlayer,
+};
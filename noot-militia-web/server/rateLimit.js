@@ -0,0 +1,160 @@
+// @ts-check
+
+// ===============================================
+// RATE LIMITING
+// ===============================================
+
+// Every event a client sends spends a token from that socket's bucket for
+// the event. Buckets refill at a steady rate up to a burst size, set per
+// event in RATE_LIMITS. Events arriving at an empty bucket are dropped and
+// counted, and so are malformed ones. Each drop also spends a violation
+// token; a socket that runs out of those is disconnected.
+
+/**
+ * @typedef {import("../src/shared/protocol").ClientToServerEvents} ClientToServerEvents
+ * @typedef {import("socket.io").Socket<ClientToServerEvents, import("../src/shared/protocol").ServerToClientEvents>} GameSocket
+ * @typedef {{ burst: number, perSecond: number }} BucketConfig
+ * @typedef {{ tokens: number, updatedAt: number }} Bucket
+ * @typedef {"rate" | "malformed"} DropReason
+ */
+
+const MAX_MESSAGE_SIZE = 16 * 1024; // Bytes; socket.io closes connections sending more
+
+/** @type {{ [E in keyof ClientToServerEvents]: BucketConfig }} */
+const RATE_LIMITS = {
+  // Matching
+  "request-sign-in": { burst: 5, perSecond: 0.2 },
+  "join-matching": { burst: 5, perSecond: 0.2 },
+  "create-private-lobby": { burst: 3, perSecond: 0.2 },
+  "join-private-lobby": { burst: 5, perSecond: 0.5 },
+  "player-ready": { burst: 5, perSecond: 1 },
+  "start-game": { burst: 3, perSecond: 0.5 },
+  "kick-lobby-player": { burst: 5, perSecond: 1 },
+  "transfer-host": { burst: 3, perSecond: 0.5 },
+  "set-lobby-locked": { burst: 5, perSecond: 1 },
+  "update-lobby-settings": { burst: 10, perSecond: 2 },
+  "leave-matching": { burst: 3, perSecond: 0.5 },
+  "create-party": { burst: 3, perSecond: 0.2 },
+  "invite-to-party": { burst: 5, perSecond: 0.5 },
+  "join-party": { burst: 5, perSecond: 0.5 },
+  "leave-party": { burst: 3, perSecond: 0.5 },
+  "queue-party": { burst: 3, perSecond: 0.5 },
+  "lobby-chat": { burst: 5, perSecond: 1 },
+  "mute-player": { burst: 20, perSecond: 2 }, // Clients resend their mutes on joining
+
+  // Match - inputs and acks arrive once per tick, with some jitter
+  "join-match": { burst: 5, perSecond: 0.5 },
+  "spectate-match": { burst: 5, perSecond: 0.5 },
+  playerInput: { burst: 60, perSecond: 40 },
+  latencyPong: { burst: 5, perSecond: 2 },
+  snapshotAck: { burst: 60, perSecond: 40 },
+  playerRespawned: { burst: 3, perSecond: 1 },
+  "match-chat": { burst: 5, perSecond: 1 },
+};
+
+// Drops a socket may cause before it is disconnected
+/** @type {BucketConfig} */
+const VIOLATION_LIMIT = { burst: 50, perSecond: 5 };
+
+// Dropped events since the server started, by event and reason
+/** @type {Record<string, Record<DropReason, number>>} */
+const droppedEvents = {};
+let disconnectedSockets = 0;
+
+/**
+ * Spend a token for an event, or drop it if the socket is sending too fast
+ * @param {GameSocket} socket
+ * @param {keyof ClientToServerEvents} event
+ * @returns {boolean} Whether the event may be handled
+ */
+function allowEvent(socket, event) {
+  const now = Date.now();
+  const buckets = getBuckets(socket);
+
+  let bucket = buckets.get(event);
+  if (!bucket) {
+    bucket = { tokens: RATE_LIMITS[event].burst, updatedAt: now };
+    buckets.set(event, bucket);
+  }
+
+  if (takeToken(bucket, RATE_LIMITS[event], now)) return true;
+
+  recordDrop(socket, event, "rate");
+  return false;
+}
+
+/**
+ * Count a dropped event against the socket, disconnecting it once it has
+ * caused too many
+ * @param {GameSocket} socket
+ * @param {string} event
+ * @param {DropReason} reason
+ */
+function recordDrop(socket, event, reason) {
+  const counts = (droppedEvents[event] = droppedEvents[event] || {
+    rate: 0,
+    malformed: 0,
+  });
+  counts[reason]++;
+
+  const now = Date.now();
+  if (!socket.data.violations) {
+    socket.data.violations = { tokens: VIOLATION_LIMIT.burst, updatedAt: now };
+  }
+  if (takeToken(socket.data.violations, VIOLATION_LIMIT, now)) return;
+  if (!socket.connected) return;
+
+  disconnectedSockets++;
+  console.warn(
+    `Disconnecting ${socket.id}: too many dropped events (last: ${reason} ${event})`
+  );
+  socket.emit("kicked", { reason: "Too many messages" });
+  socket.disconnect(true);
+}
+
+/**
+ * Counters for the metrics endpoint
+ */
+function getRateLimitMetrics() {
+  return {
+    dropped: droppedEvents,
+    disconnected: disconnectedSockets,
+  };
+}
+
+/**
+ * @param {GameSocket} socket
+ * @returns {Map<string, Bucket>}
+ */
+function getBuckets(socket) {
+  if (!socket.data.buckets) {
+    socket.data.buckets = new Map();
+  }
+  return socket.data.buckets;
+}
+
+/**
+ * Refill a bucket for the time passed, then try to take one token from it
+ * @param {Bucket} bucket
+ * @param {BucketConfig} config
+ * @param {number} now
+ * @returns {boolean}
+ */
+function takeToken(bucket, config, now) {
+  bucket.tokens = Math.min(
+    config.burst,
+    bucket.tokens + ((now - bucket.updatedAt) / 1000) * config.perSecond
+  );
+  bucket.updatedAt = now;
+
+  if (bucket.tokens < 1) return false;
+  bucket.tokens -= 1;
+  return true;
+}
+
+module.exports = {
+  MAX_MESSAGE_SIZE,
+  allowEvent,
+  recordDrop,
+  getRateLimitMetrics,
+};
@@ -0,0 +1,101 @@
+// ===============================================
+// PLAYER RATINGS
+// ===============================================
+
+// Every wallet has an Elo rating, used to put players of similar skill in the
+// same lobby. A finished match counts as a game between every pair of its
+// players, won by whoever got more kills, and each result moves the rating by
+// up to K_FACTOR / (players - 1). Ratings are kept in a JSON file, by default
+// server/data/ratings.json, or wherever RATINGS_FILE points.
+
+const fs = require("fs");
+const path = require("path");
+const { normalizeAddress } = require("../src/shared/signIn");
+
+const DEFAULT_RATING = 1000; // Rating of a wallet that hasn't played yet
+const K_FACTOR = 32; // Most a rating can move in one match
+const RATINGS_FILE =
+  process.env.RATINGS_FILE || path.join(__dirname, "data", "ratings.json");
+
+const ratings = loadRatings(); // Map of normalized addresses to rating entries
+let saving = Promise.resolve(); // Writes are queued so they never overlap
+
+// Rating of a wallet, or the default for new players
+function getRating(address) {
+  const entry = ratings.get(normalizeAddress(address));
+  return entry ? entry.rating : DEFAULT_RATING;
+}
+
+// Update everyone's rating from a finished match's results and save them.
+// Returns each player's rating before and after the match.
+function updateRatings(results) {
+  const players = results.players;
+  if (players.length < 2) return [];
+
+  const before = players.map((player) => getRating(player.address));
+  const changes = players.map((player, index) => {
+    let score = 0;
+    let expected = 0;
+    players.forEach((opponent, opponentIndex) => {
+      if (opponentIndex === index) return;
+
+      expected +=
+        1 / (1 + Math.pow(10, (before[opponentIndex] - before[index]) / 400));
+      score +=
+        player.kills > opponent.kills
+          ? 1
+          : player.kills === opponent.kills
+          ? 0.5
+          : 0;
+    });
+
+    const rating = Math.round(
+      before[index] + (K_FACTOR * (score - expected)) / (players.length - 1)
+    );
+    return { address: player.address, before: before[index], after: rating };
+  });
+
+  changes.forEach((change) => {
+    const key = normalizeAddress(change.address);
+    const entry = ratings.get(key);
+    ratings.set(key, {
+      rating: change.after,
+      matches: entry ? entry.matches + 1 : 1,
+    });
+  });
+
+  saveRatings();
+  return changes;
+}
+
+// Read the ratings file, starting empty if there is none yet
+function loadRatings() {
+  try {
+    const data = JSON.parse(fs.readFileSync(RATINGS_FILE, "utf8"));
+    console.log(`Loaded ${Object.keys(data).length} ratings`);
+    return new Map(Object.entries(data));
+  } catch (err) {
+    if (err.code !== "ENOENT") {
+      console.error("Error loading ratings:", err);
+    }
+    return new Map();
+  }
+}
+
+// Write all ratings to the ratings file
+function saveRatings() {
+  const data = JSON.stringify(Object.fromEntries(ratings), null, 2);
+
+  saving = saving
+    .then(async () => {
+      await fs.promises.mkdir(path.dirname(RATINGS_FILE), { recursive: true });
+      await fs.promises.writeFile(RATINGS_FILE, data);
+    })
+    .catch((err) => console.error("Error saving ratings:", err));
+}
+
+module.exports = {
+  DEFAULT_RATING,
+  getRating,
+  updateRatings,
+};
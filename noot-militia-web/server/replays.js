@@ -0,0 +1,113 @@
+// ===============================================
+// MATCH RECORDINGS
+// ===============================================
+
+// Every match is recorded so it can be reviewed later, for example when the
+// result of a staked match is disputed. A recording is an ordered log of
+// what the match server did: the inputs it applied and its authoritative
+// events (spawns, shots, damage, deaths, respawns), each stamped with the
+// tick and the milliseconds since the match started. Players are moved by
+// the shared simulation, so feeding the inputs to stepPlayer() gives a
+// viewer the same positions the server had. Regular keyframes with every
+// player's full state let viewers seek without starting over.
+//
+// Events are stamped with the tick they happened in. Inputs are applied at
+// the start of their tick; every other event happens after that tick's
+// movement. The types are in src/shared/protocol.ts.
+//
+// Recordings are written once their match is torn down, as <matchId>.json
+// in server/data/replays or wherever REPLAY_DIR points. Files carry
+// REPLAY_VERSION, which changes whenever the format does.
+
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+const REPLAY_VERSION = 1;
+const REPLAY_DIR =
+  process.env.REPLAY_DIR || path.join(__dirname, "data", "replays");
+const MATCH_ID_PATTERN = /^[a-z0-9_]+$/; // Match IDs are also file names
+
+// Start recording a match that was just created
+function createRecording(match, tickRate) {
+  return {
+    version: REPLAY_VERSION,
+    matchId: `${match.id}_${crypto.randomBytes(6).toString("hex")}`,
+    lobbyId: match.id,
+    startedAt: Date.now(),
+    tickRate: tickRate,
+    settings: { ...match.settings },
+    endTick: 0, // Set when the recording is saved
+    players: Array.from(match.roster.values()).map((entry) => ({
+      slot: entry.slot,
+      address: entry.address,
+      bot: entry.sessionToken === null,
+    })),
+    events: [],
+  };
+}
+
+/**
+ * Add an event to the end of a recording
+ * @param {import("../src/shared/protocol").MatchRecording} recording
+ * @param {number} tick
+ * @param {import("../src/shared/protocol").ReplayEvent["type"]} type
+ * @param {object} data
+ */
+function recordEvent(recording, tick, type, data) {
+  recording.events.push({
+    tick: tick,
+    time: Date.now() - recording.startedAt,
+    type: type,
+    ...data,
+  });
+}
+
+// Write a finished recording to its file
+async function saveRecording(recording, endTick) {
+  recording.endTick = endTick;
+
+  try {
+    await fs.promises.mkdir(REPLAY_DIR, { recursive: true });
+    await fs.promises.writeFile(
+      getRecordingFile(recording.matchId),
+      JSON.stringify(recording)
+    );
+    console.log(
+      `Saved recording of match ${recording.matchId} (${recording.events.length} events)`
+    );
+  } catch (err) {
+    console.error(`Error saving recording of ${recording.matchId}:`, err);
+  }
+}
+
+// Read the recording of a match. Returns null if there is none, including
+// for IDs that can't be a match's.
+async function loadRecording(matchId) {
+  if (typeof matchId !== "string" || !MATCH_ID_PATTERN.test(matchId)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(
+      await fs.promises.readFile(getRecordingFile(matchId), "utf8")
+    );
+  } catch (err) {
+    if (err.code !== "ENOENT") {
+      console.error(`Error loading recording of ${matchId}:`, err);
+    }
+    return null;
+  }
+}
+
+function getRecordingFile(matchId) {
+  return path.join(REPLAY_DIR, `${matchId}.json`);
+}
+
+module.exports = {
+  REPLAY_VERSION,
+  createRecording,
+  recordEvent,
+  saveRecording,
+  loadRecording,
+};
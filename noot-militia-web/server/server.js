@@ -1,12 +1,46 @@
+const crypto = require("crypto");
 const express = require("express");
 const http = require("http");
-const socketIO = require("socket.io");
+const { Server } = require("socket.io");
 const path = require("path");
-
-// Create the Express app, HTTP server, and Socket.io instance
+const {
+  DEFAULT_MATCH_SETTINGS,
+  createMatch,
+  getSessionToken,
+  isSessionAlive,
+  isRosterSession,
+  addPlayerToMatch,
+  addSpectator,
+  getMatchSummary,
+  removePlayerFromMatch,
+  disposeMatch,
+  queueInput,
+  recordLatency,
+  acknowledgeSnapshot,
+  respawnPlayer,
+  getChatRecipients,
+} = require("./match");
+const {
+  issueSignInNonce,
+  verifySignIn,
+  issueSession,
+  resumeSession,
+} = require("./auth");
+const { getRating, updateRatings } = require("./ratings");
+const { BOT_DIFFICULTIES } = require("./bots");
+const { MAPS } = require("../src/shared/simulation");
+const { loadRecording } = require("./replays");
+const { createChatMessage, sendChatMessage, setMuted } = require("./chat");
+const { onClientEvent } = require("./validation");
+const { MAX_MESSAGE_SIZE, getRateLimitMetrics } = require("./rateLimit");
+
+// Create the Express app, HTTP server, and Socket.io instance. The events
+// and payloads are defined in src/shared/protocol.ts.
 const app = express();
 const server = http.createServer(app);
-const io = socketIO(server, {
+/** @type {import("socket.io").Server<import("../src/shared/protocol").ClientToServerEvents, import("../src/shared/protocol").ServerToClientEvents>} */
+const io = new Server(server, {
+  maxHttpBufferSize: MAX_MESSAGE_SIZE,
   cors: {
     origin: "*", // In production, restrict this to your domain
     methods: ["GET", "POST"],
@@ -16,6 +50,50 @@ const io = socketIO(server, {
 // Serve static files from the public directory
 app.use(express.static(path.join(__dirname, "../public")));
 
+// Let the game page check whether a saved match session can be rejoined
+app.get("/api/match-session", (req, res) => {
+  res.set("Access-Control-Allow-Origin", "*");
+
+  const lobby = lobbies.get(String(req.query.lobbyId));
+  const alive =
+    !!lobby && !!lobby.match && isSessionAlive(lobby.match, req.query.token);
+  res.json({ alive: alive });
+});
+
+// Public matches that can be watched, for the matching page
+app.get("/api/matches", (req, res) => {
+  res.set("Access-Control-Allow-Origin", "*");
+
+  const matches = Array.from(lobbies.values())
+    .filter(
+      (lobby) => lobby.match && !lobby.code && lobby.match.phase !== "finished"
+    )
+    .map((lobby) => getMatchSummary(lobby.match));
+  res.json({ matches: matches });
+});
+
+// Recording of a finished match, for the replay page. Match IDs carry a
+// random part, so only players who were sent one can find a recording.
+app.get("/api/replays/:matchId", async (req, res) => {
+  res.set("Access-Control-Allow-Origin", "*");
+
+  const recording = await loadRecording(req.params.matchId);
+  if (!recording) {
+    res.status(404).json({ error: "Replay not found" });
+    return;
+  }
+  res.json(recording);
+});
+
+// Connection counts and events dropped by the rate limiter
+app.get("/api/metrics", (req, res) => {
+  res.json({
+    connections: io.engine.clientsCount,
+    lobbies: lobbies.size,
+    rateLimit: getRateLimitMetrics(),
+  });
+});
+
 // ===============================================
 // PLAYER MATCHING SYSTEM
 // ===============================================
@@ -23,66 +101,262 @@ app.use(express.static(path.join(__dirname, "../public")));
 // Matching system state
 const lobbies = new Map(); // Map of lobby IDs to lobby objects
 const playerLobbyMap = new Map(); // Map of player IDs to lobby IDs
+const playerMatchMap = new Map(); // Map of game socket IDs to lobby IDs
+const lobbyCodes = new Map(); // Map of invite codes to private lobbies
+const parties = new Map(); // Map of normalized addresses to their party
+const partyCodes = new Map(); // Map of invite codes to parties
 let nextLobbyId = 1;
-
-// Create a new lobby object
-function createLobby() {
+let nextPartyId = 1;
+let nextBotId = 1;
+
+const LOBBY_RETURN_PERIOD = 60000; // Milliseconds an empty lobby waits for its players after a match
+const DEFAULT_LOBBY_SIZE = 4; // Players a lobby takes unless its host changes it
+const MAX_LOBBY_PLAYERS = 8; // Most players a host can let into a lobby
+const INVITE_CODE_LENGTH = 6;
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I
+const MAX_PARTY_SIZE = 3;
+const DEFAULT_READY_CHECK_TIMEOUT =
+  Number(process.env.READY_CHECK_TIMEOUT || 30) * 1000; // Milliseconds, READY_CHECK_TIMEOUT sets it in seconds
+const PARTY_RETURN_PERIOD = 60000; // Milliseconds a disconnected party member is kept
+const NOT_READY_COOLDOWN = 60000; // Milliseconds a player moved out by a ready check is kept out of that lobby
+
+// Lobbies whose first player has waited BOT_FILL_DELAY (in seconds, 0 never
+// fills) get their empty slots filled with bots, which give their slot back
+// as soon as a human joins. Hosts pick the bots' difficulty or turn them off.
+const BOT_FILL_DELAY = Number(process.env.BOT_FILL_DELAY || 60) * 1000; // Milliseconds
+const BOT_DIFFICULTY_SETTINGS = ["off", ...Object.keys(BOT_DIFFICULTIES)];
+const DEFAULT_BOT_DIFFICULTY = BOT_DIFFICULTY_SETTINGS.includes(
+  process.env.BOT_DIFFICULTY
+)
+  ? process.env.BOT_DIFFICULTY
+  : "normal";
+
+// Lobbies only take players whose rating is close to their own. The allowed
+// difference starts at SEARCH_WINDOW and grows while the lobby waits, and
+// every MATCHMAKING_INTERVAL lobbies that fit together are merged.
+const SEARCH_WINDOW = 100; // Rating points
+const SEARCH_WINDOW_GROWTH = 10; // Rating points per second of waiting
+const MAX_SEARCH_WINDOW = 800; // Rating points
+const MATCHMAKING_INTERVAL = 1000; // Milliseconds
+const DEFAULT_WAIT_ESTIMATE = 30000; // Milliseconds, until games have started
+const WAIT_SMOOTHING = 0.2; // Weight of a new wait time in the estimate
+
+let averageWait = null; // Smoothed time players waited for a game to start
+
+// Values a lobby host can pick for each setting, as [min, max]
+const LOBBY_SETTING_LIMITS = {
+  maxPlayers: [2, MAX_LOBBY_PLAYERS],
+  readyCheckTimeout: [0, 120 * 1000], // Milliseconds, 0 for no ready check
+  timeLimit: [0, 30 * 60 * 1000], // Milliseconds, 0 for no limit
+  killLimit: [0, 100], // 0 for no limit
+};
+
+// Choices a lobby host picks from for the other settings. There is only one
+// map so far, and friendly fire stays on until matches have teams.
+/** @type {Record<string, (string | boolean)[]>} */
+const LOBBY_SETTING_CHOICES = {
+  botDifficulty: BOT_DIFFICULTY_SETTINGS,
+  map: MAPS,
+  friendlyFire: [true],
+};
+
+// Create a new lobby object. Private lobbies get an invite code and are
+// only joined with it.
+function createLobby(isPrivate) {
   const lobbyId = `lobby_${nextLobbyId++}`;
   const lobby = {
     id: lobbyId,
     players: new Map(), // Map of player IDs to player objects
     state: "waiting", // waiting, starting, or active
     countdown: null, // Countdown timer reference
+    match: null, // Match instance while the lobby is active
+    settings: {
+      maxPlayers: DEFAULT_LOBBY_SIZE,
+      readyCheckTimeout: DEFAULT_READY_CHECK_TIMEOUT,
+      botDifficulty: DEFAULT_BOT_DIFFICULTY,
+      ...DEFAULT_MATCH_SETTINGS,
+    }, // Size, ready check, bots and match limits, set by the host
+    bots: [], // Bots filling empty slots, always ready
+    readyCheck: null, // Deadline and timer of the running ready check
+    code: isPrivate ? createInviteCode(lobbyCodes) : null, // Invite code of a private lobby
+    members: new Set(), // Normalized addresses of everyone who joined
+    hostId: null, // Player ID of the host, who runs the lobby
+    locked: false, // Locked lobbies only take back players who were in them
+    banned: new Set(), // Normalized addresses the host kicked
+    notReady: new Map(), // Normalized addresses a ready check moved out, and when they may come back
   };
 
   lobbies.set(lobbyId, lobby);
-  console.log(`Created new lobby: ${lobbyId}`);
+  if (lobby.code) {
+    lobbyCodes.set(lobby.code, lobby);
+  }
+  console.log(
+    `Created new ${lobby.code ? "private " : ""}lobby: ${lobbyId}${
+      lobby.code ? ` (${lobby.code})` : ""
+    }`
+  );
   return lobby;
 }
 
-// Add player to a lobby (creates a new lobby if none exists with space)
-function addPlayerToLobby(socket, playerAddress) {
-  // Check if player is already in a lobby
-  if (playerLobbyMap.has(socket.id)) {
-    return playerLobbyMap.get(socket.id);
+// Drop a lobby and its invite code
+function deleteLobby(lobby) {
+  if (lobby.countdown) {
+    clearTimeout(lobby.countdown);
   }
+  if (lobby.readyCheck) {
+    clearTimeout(lobby.readyCheck.timer);
+  }
+
+  lobbies.delete(lobby.id);
+  if (lobby.code) {
+    lobbyCodes.delete(lobby.code);
+  }
+}
+
+// Invite code that isn't in use yet, given a map of the codes in use
+function createInviteCode(usedCodes) {
+  let code;
+  do {
+    code = "";
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+      code +=
+        INVITE_CODE_ALPHABET[crypto.randomInt(INVITE_CODE_ALPHABET.length)];
+    }
+  } while (usedCodes.has(code));
+  return code;
+}
+
+// Private lobby for an invite code, which is read case-insensitively
+function findLobbyByCode(code) {
+  return lobbyCodes.get(String(code).trim().toUpperCase()) || null;
+}
+
+// Add player to the lobby closest to their rating (creates a new lobby if
+// none is within reach). Players can instead ask for a private lobby by its
+// invite code, or for the lobby they just played a match from. A party
+// leader can bring their party (`request.party`), which is only placed in a
+// lobby with room for all of its members.
+function addPlayerToLobby(socket, playerAddress, request) {
+  const players = [{ socket: socket, address: playerAddress }];
+  if (request.party) {
+    request.party.members.forEach((member) => {
+      if (
+        member.socket &&
+        member.address.toLowerCase() !== playerAddress.toLowerCase()
+      ) {
+        players.push({ socket: member.socket, address: member.address });
+      }
+    });
+  }
+  const addresses = players.map((player) => player.address);
 
   // Find a lobby with space or create a new one
   let lobby = null;
+  let rating = 0;
+  addresses.forEach((address) => {
+    rating += getRating(address) / addresses.length;
+  });
 
-  // Try to find a waiting lobby first
-  for (const [lobbyId, existingLobby] of lobbies.entries()) {
-    if (existingLobby.state === "waiting" && existingLobby.players.size < 4) {
-      lobby = existingLobby;
-      break;
-    }
+  const requestedLobby = request.code
+    ? findLobbyByCode(request.code)
+    : lobbies.get(request.lobbyId);
+  if (
+    requestedLobby &&
+    canJoinLobby(requestedLobby, addresses) &&
+    // Private lobbies only take their code or their own players back
+    (!requestedLobby.code ||
+      request.code ||
+      addresses.every((address) =>
+        requestedLobby.members.has(address.toLowerCase())
+      ))
+  ) {
+    lobby = requestedLobby;
+  }
+
+  // Otherwise try to find the closest waiting public lobby
+  if (!lobby) {
+    const now = Date.now();
+    let closestGap = Infinity;
+    lobbies.forEach((existingLobby) => {
+      if (existingLobby.code || !canJoinLobby(existingLobby, addresses)) {
+        return;
+      }
+
+      const gap = Math.abs(getLobbyRating(existingLobby) - rating);
+      if (gap <= getSearchWindow(existingLobby, now) && gap < closestGap) {
+        lobby = existingLobby;
+        closestGap = gap;
+      }
+    });
   }
 
   // If no waiting lobby found, create a new one
   if (!lobby) {
-    lobby = createLobby();
+    lobby = createLobby(false);
   }
 
-  // Add player to the lobby
+  players.forEach((player) => {
+    putPlayerInLobby(player.socket, player.address, lobby);
+  });
+  return lobby;
+}
+
+// True if a lobby is waiting for players, has room for all of these and
+// would take each of them: not one its host kicked or a ready check just
+// moved out, and if it is locked, one who was in it before
+function canJoinLobby(lobby, playerAddresses) {
+  if (lobby.state !== "waiting") return false;
+  if (lobby.players.size + playerAddresses.length > lobby.settings.maxPlayers) {
+    return false;
+  }
+
+  return playerAddresses.every((playerAddress) => {
+    const key = playerAddress.toLowerCase();
+    if (isKeptOut(lobby, key)) return false;
+    return !lobby.locked || lobby.members.has(key);
+  });
+}
+
+// True if a lobby won't take a player back: kicked by the host, or moved
+// out by a ready check a short while ago
+function isKeptOut(lobby, addressKey) {
+  if (lobby.banned.has(addressKey)) return true;
+
+  const until = lobby.notReady.get(addressKey);
+  if (until === undefined) return false;
+  if (Date.now() < until) return true;
+
+  lobby.notReady.delete(addressKey);
+  return false;
+}
+
+// Add a player to a specific lobby
+function putPlayerInLobby(socket, playerAddress, lobby) {
   const player = {
     id: socket.id,
     address: playerAddress,
+    rating: getRating(playerAddress),
     ready: false,
     socket: socket,
     joinedAt: Date.now(),
   };
 
   lobby.players.set(socket.id, player);
+  lobby.members.add(playerAddress.toLowerCase());
   playerLobbyMap.set(socket.id, lobby.id);
 
+  // The first player in becomes the host
+  if (!lobby.hostId) {
+    lobby.hostId = socket.id;
+  }
+  trimLobbyBots(lobby);
+
   console.log(
     `Added player ${socket.id} (${playerAddress}) to lobby ${lobby.id}`
   );
 
   // Notify all players in the lobby about the updated player list
   broadcastLobbyUpdate(lobby);
-
-  return lobby;
 }
 
 // Remove player from their lobby
@@ -98,14 +372,21 @@ function removePlayerFromLobby(socketId) {
   playerLobbyMap.delete(socketId);
   console.log(`Removed player ${socketId} from lobby ${lobbyId}`);
 
-  // If lobby is empty, delete it
-  if (lobby.players.size === 0) {
-    // Clear any existing countdown
-    if (lobby.countdown) {
-      clearTimeout(lobby.countdown);
-    }
+  // Hand the lobby to whoever has been in it longest
+  if (lobby.hostId === socketId) {
+    lobby.hostId = null;
+    let firstJoinedAt = Infinity;
+    lobby.players.forEach((player) => {
+      if (player.joinedAt < firstJoinedAt) {
+        lobby.hostId = player.id;
+        firstJoinedAt = player.joinedAt;
+      }
+    });
+  }
 
-    lobbies.delete(lobbyId);
+  // If lobby is empty, delete it (a running match keeps the lobby alive)
+  if (lobby.players.size === 0 && !lobby.match) {
+    deleteLobby(lobby);
     console.log(`Deleted empty lobby ${lobbyId}`);
     return;
   }
@@ -116,22 +397,291 @@ function removePlayerFromLobby(socketId) {
 
 // Broadcast lobby status to all players in the lobby
 function broadcastLobbyUpdate(lobby) {
-  const playerData = Array.from(lobby.players.values()).map((player) => ({
+  // Every change to a lobby is broadcast, so its ready check follows here
+  updateReadyCheck(lobby);
+  const lobbyData = getLobbyData(lobby);
+
+  // Send update to all players
+  lobby.players.forEach((player) => {
+    player.socket.emit("lobby-update", lobbyData);
+  });
+}
+
+// Tell a player which lobby they are now in
+function sendLobbyJoined(socket, lobby) {
+  socket.emit("matching-joined", {
+    success: true,
+    ...getLobbyData(lobby),
+  });
+}
+
+// Public view of a lobby
+function getLobbyData(lobby) {
+  return {
+    lobbyId: lobby.id,
+    players: getLobbyPlayerData(lobby),
+    state: lobby.state,
+    code: lobby.code,
+    hostId: lobby.hostId,
+    locked: lobby.locked,
+    settings: { ...lobby.settings },
+    readyCheckTimeLeft: lobby.readyCheck
+      ? Math.max(0, lobby.readyCheck.endsAt - Date.now())
+      : null,
+    estimatedWait: getWaitEstimate(),
+  };
+}
+
+// Start a ready check once someone in a waiting lobby of two or more is
+// ready, so one player who never readies can't hold the lobby forever.
+// The check stops once everyone is ready or it isn't needed anymore.
+function updateReadyCheck(lobby) {
+  const players = Array.from(lobby.players.values());
+  const needed =
+    lobby.state === "waiting" &&
+    lobby.settings.readyCheckTimeout > 0 &&
+    players.length >= 2 &&
+    players.some((player) => player.ready) &&
+    !players.every((player) => player.ready);
+
+  if (!needed) {
+    if (lobby.readyCheck) {
+      clearTimeout(lobby.readyCheck.timer);
+      lobby.readyCheck = null;
+    }
+    return;
+  }
+  if (lobby.readyCheck) return;
+
+  const timeout = lobby.settings.readyCheckTimeout;
+  lobby.readyCheck = {
+    endsAt: Date.now() + timeout,
+    timer: setTimeout(() => expireReadyCheck(lobby), timeout),
+  };
+}
+
+// Deal with the players who didn't ready up in time. Public lobbies move
+// them out into a lobby of their own. Friends in a private lobby aren't
+// split up; everyone is un-readied and the host can kick whoever is away.
+function expireReadyCheck(lobby) {
+  lobby.readyCheck = null;
+  if (lobbies.get(lobby.id) !== lobby || lobby.state !== "waiting") return;
+
+  if (lobby.code) {
+    lobby.players.forEach((player) => {
+      player.ready = false;
+      player.socket.emit("ready-check-failed", {
+        reason: "Not everyone readied up in time",
+      });
+    });
+    broadcastLobbyUpdate(lobby);
+    return;
+  }
+
+  const idle = Array.from(lobby.players.values()).filter(
+    (player) => !player.ready
+  );
+  idle.forEach((player) => {
+    removePlayerFromLobby(player.id);
+    lobby.notReady.set(
+      player.address.toLowerCase(),
+      Date.now() + NOT_READY_COOLDOWN
+    );
+    console.log(`Moved ${player.id} out of lobby ${lobby.id}, not ready`);
+
+    const ownLobby = createLobby(false);
+    putPlayerInLobby(player.socket, player.address, ownLobby);
+    player.socket.emit("ready-check-failed", {
+      reason: "You were moved to a new lobby for not readying up in time",
+    });
+    sendLobbyJoined(player.socket, ownLobby);
+  });
+
+  // Whoever is left is ready
+  if (lobbies.get(lobby.id) === lobby) {
+    startLobbyCountdown(lobby);
+  }
+}
+
+// Public view of the players in a lobby, bots last
+function getLobbyPlayerData(lobby) {
+  const humans = Array.from(lobby.players.values()).map((player) => ({
     id: player.id,
     address: player.address,
+    rating: player.rating,
     ready: player.ready,
+    bot: false,
   }));
+  const bots = lobby.bots.map((bot) => ({
+    id: bot.id,
+    address: bot.address,
+    rating: bot.rating,
+    ready: true,
+    bot: true,
+  }));
+  return humans.concat(bots);
+}
 
-  // Send update to all players
+// Average rating of the players in a lobby
+function getLobbyRating(lobby) {
+  let total = 0;
   lobby.players.forEach((player) => {
-    player.socket.emit("lobby-update", {
-      lobbyId: lobby.id,
-      players: playerData,
-      state: lobby.state,
+    total += player.rating;
+  });
+  return lobby.players.size > 0 ? total / lobby.players.size : 0;
+}
+
+// Rating difference a lobby accepts, wider the longer its first player waits
+function getSearchWindow(lobby, now) {
+  let firstJoinedAt = now;
+  lobby.players.forEach((player) => {
+    firstJoinedAt = Math.min(firstJoinedAt, player.joinedAt);
+  });
+
+  const waited = (now - firstJoinedAt) / 1000;
+  return Math.min(
+    MAX_SEARCH_WINDOW,
+    SEARCH_WINDOW + waited * SEARCH_WINDOW_GROWTH
+  );
+}
+
+// Typical milliseconds from joining matching to a game starting
+function getWaitEstimate() {
+  return Math.round(averageWait === null ? DEFAULT_WAIT_ESTIMATE : averageWait);
+}
+
+// Merge waiting lobbies whose search windows now reach each other, moving
+// the players of the smaller lobby into the larger one
+function mergeWaitingLobbies() {
+  const now = Date.now();
+  const waiting = Array.from(lobbies.values())
+    .filter(
+      (lobby) =>
+        lobby.state === "waiting" &&
+        lobby.players.size > 0 &&
+        !lobby.code &&
+        !lobby.locked
+    )
+    .sort((a, b) => a.players.size - b.players.size);
+
+  waiting.forEach((source) => {
+    // Emptied by an earlier merge
+    if (source.players.size === 0) return;
+
+    let target = null;
+    let closestGap = Infinity;
+    waiting.forEach((candidate) => {
+      if (
+        candidate === source ||
+        candidate.players.size < source.players.size ||
+        candidate.players.size + source.players.size >
+          candidate.settings.maxPlayers ||
+        // Players kicked or moved out for not readying aren't merged back
+        // in with that lobby, whichever way the merge would go
+        Array.from(source.players.values()).some((player) =>
+          isKeptOut(candidate, player.address.toLowerCase())
+        ) ||
+        Array.from(candidate.players.values()).some((player) =>
+          isKeptOut(source, player.address.toLowerCase())
+        )
+      ) {
+        return;
+      }
+
+      const gap = Math.abs(getLobbyRating(candidate) - getLobbyRating(source));
+      const searchWindow = Math.max(
+        getSearchWindow(source, now),
+        getSearchWindow(candidate, now)
+      );
+      if (gap <= searchWindow && gap < closestGap) {
+        target = candidate;
+        closestGap = gap;
+      }
+    });
+
+    if (target) {
+      moveLobbyPlayers(source, target);
+    }
+  });
+}
+
+// Move every player of one waiting lobby into another and drop the first.
+// The target lobby keeps its host and settings.
+function moveLobbyPlayers(source, target) {
+  source.players.forEach((player) => {
+    target.players.set(player.id, player);
+    target.members.add(player.address.toLowerCase());
+    playerLobbyMap.set(player.id, target.id);
+
+    sendLobbyJoined(player.socket, target);
+  });
+  source.players.clear();
+  trimLobbyBots(target);
+
+  deleteLobby(source);
+  console.log(`Merged lobby ${source.id} into ${target.id}`);
+
+  broadcastLobbyUpdate(target);
+  startLobbyCountdown(target);
+}
+
+// Fill the empty slots of lobbies that waited BOT_FILL_DELAY for players
+// with bots, and start those whose players are all ready
+function fillLobbiesWithBots() {
+  if (BOT_FILL_DELAY === 0) return;
+
+  const now = Date.now();
+  lobbies.forEach((lobby) => {
+    if (
+      lobby.state !== "waiting" ||
+      lobby.locked ||
+      lobby.players.size === 0 ||
+      lobby.settings.botDifficulty === "off" ||
+      lobby.players.size + lobby.bots.length >= lobby.settings.maxPlayers
+    ) {
+      return;
+    }
+
+    let firstJoinedAt = now;
+    lobby.players.forEach((player) => {
+      firstJoinedAt = Math.min(firstJoinedAt, player.joinedAt);
     });
+    if (now - firstJoinedAt < BOT_FILL_DELAY) return;
+
+    while (lobby.players.size + lobby.bots.length < lobby.settings.maxPlayers) {
+      lobby.bots.push(createLobbyBot(lobby));
+    }
+    console.log(`Filled lobby ${lobby.id} with ${lobby.bots.length} bots`);
+
+    broadcastLobbyUpdate(lobby);
+    // Private lobbies wait for their host to start
+    if (!lobby.code) startLobbyCountdown(lobby);
   });
 }
 
+// A new bot for a lobby, named with the lowest number free in it
+function createLobbyBot(lobby) {
+  let number = 1;
+  while (lobby.bots.some((bot) => bot.address === `Noot Bot ${number}`)) {
+    number++;
+  }
+
+  return {
+    id: `bot_${nextBotId++}`,
+    address: `Noot Bot ${number}`, // Shown where a player's wallet would be
+    rating: Math.round(getLobbyRating(lobby)),
+    difficulty: lobby.settings.botDifficulty,
+  };
+}
+
+// Drop the bots a lobby has no room for anymore, newest first
+function trimLobbyBots(lobby) {
+  const room = Math.max(0, lobby.settings.maxPlayers - lobby.players.size);
+  if (lobby.bots.length > room) {
+    lobby.bots.splice(room);
+  }
+}
+
 // Start a lobby countdown when all players are ready
 function startLobbyCountdown(lobby) {
   if (lobby.state !== "waiting") return;
@@ -140,7 +690,7 @@ function startLobbyCountdown(lobby) {
   const allReady = Array.from(lobby.players.values()).every(
     (player) => player.ready
   );
-  if (!allReady || lobby.players.size < 2) return;
+  if (!allReady || lobby.players.size + lobby.bots.length < 2) return;
 
   // Start countdown
   lobby.state = "starting";
@@ -181,22 +731,105 @@ function startLobbyCountdown(lobby) {
   lobby.countdown = setTimeout(tick, 1000);
 }
 
+// Lobby a player hosts, as long as it is still waiting to start
+function getHostedLobby(socketId) {
+  const lobby = lobbies.get(playerLobbyMap.get(socketId));
+  if (!lobby || lobby.hostId !== socketId || lobby.state !== "waiting") {
+    return null;
+  }
+  return lobby;
+}
+
+// Apply the settings a host changed. Returns an error if any of them is out
+// of range, leaving the lobby as it was.
+function updateLobbySettings(lobby, changes) {
+  const settings = { ...lobby.settings };
+  for (const [key, [min, max]] of Object.entries(LOBBY_SETTING_LIMITS)) {
+    const value = changes[key];
+    if (value === undefined || value === null) continue;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return { error: `${key} must be a whole number from ${min} to ${max}` };
+    }
+    settings[key] = value;
+  }
+
+  if (settings.maxPlayers < lobby.players.size) {
+    return { error: "The lobby already has more players than that" };
+  }
+  if (settings.timeLimit === 0 && settings.killLimit === 0) {
+    return { error: "Matches need a time limit or a kill limit" };
+  }
+  for (const [key, choices] of Object.entries(LOBBY_SETTING_CHOICES)) {
+    const value = changes[key];
+    if (value === undefined || value === null) continue;
+    if (!choices.includes(value)) {
+      return { error: `${key} must be one of ${choices.join(", ")}` };
+    }
+    settings[key] = value;
+  }
+
+  // A new ready check timeout applies from the next check
+  if (
+    lobby.readyCheck &&
+    settings.readyCheckTimeout !== lobby.settings.readyCheckTimeout
+  ) {
+    clearTimeout(lobby.readyCheck.timer);
+    lobby.readyCheck = null;
+  }
+
+  lobby.settings = settings;
+
+  // Bots follow the new difficulty and lobby size
+  if (settings.botDifficulty === "off") {
+    lobby.bots = [];
+  }
+  lobby.bots.forEach((bot) => {
+    bot.difficulty = settings.botDifficulty;
+  });
+  trimLobbyBots(lobby);
+
+  return { settings: settings };
+}
+
 // Start the game for a lobby
 function startGame(lobby) {
   lobby.state = "active";
 
+  // Remember how long these players waited, for the wait estimate
+  const now = Date.now();
+  lobby.players.forEach((player) => {
+    const wait = now - player.joinedAt;
+    averageWait =
+      averageWait === null
+        ? wait
+        : averageWait + (wait - averageWait) * WAIT_SMOOTHING;
+  });
+
+  // Give the lobby its own match instance
+  const match = createMatch(
+    io,
+    lobby,
+    () => closeMatch(lobby, match),
+    (results) => finishMatch(lobby, match, results)
+  );
+  lobby.match = match;
+
   // Prepare player data for game initialization
-  const gameData = {
-    players: Array.from(lobby.players.values()).map((player, index) => ({
+  const players = Array.from(lobby.players.values())
+    .concat(lobby.bots)
+    .map((player, index) => ({
       id: player.id,
       address: player.address,
       spawnPointIndex: index % 2, // Alternate spawn points
-    })),
-  };
+    }));
 
-  // Signal all players to start the game
+  // Signal all players to start the game, each with their own session token
   lobby.players.forEach((player) => {
-    player.socket.emit("game-start", gameData);
+    player.socket.emit("game-start", {
+      lobbyId: lobby.id,
+      players: players,
+      sessionToken: getSessionToken(match, player.address),
+    });
   });
 
   // After a short delay, move all players to the game namespace
@@ -208,16 +841,257 @@ function startGame(lobby) {
   }, 1000);
 }
 
+// ===============================================
+// PARTIES
+// ===============================================
+
+// Friends can group up in a party of up to MAX_PARTY_SIZE players, which its
+// leader queues into a lobby together. Parties belong to wallets rather than
+// sockets, so they outlast the reconnects between lobby and match; a member
+// who stays away for PARTY_RETURN_PERIOD outside a match is dropped.
+
+// Create a party led by a signed-in player
+function createParty(socket, address) {
+  const party = {
+    id: `party_${nextPartyId++}`,
+    code: createInviteCode(partyCodes),
+    leader: address.toLowerCase(), // Normalized address of the leader
+    members: new Map(), // Map of normalized addresses to members
+  };
+
+  partyCodes.set(party.code, party);
+  console.log(`Created party ${party.id} (${party.code})`);
+  addPartyMember(party, socket, address);
+  return party;
+}
+
+// Party for an invite code, which is read case-insensitively
+function findPartyByCode(code) {
+  return partyCodes.get(String(code).trim().toUpperCase()) || null;
+}
+
+function addPartyMember(party, socket, address) {
+  const key = address.toLowerCase();
+  party.members.set(key, {
+    address: address,
+    socket: socket, // Matching socket, null while disconnected
+    returnTimer: null, // Drops the member if they don't come back
+  });
+  parties.set(key, party);
+
+  broadcastPartyUpdate(party);
+}
+
+// Take a wallet out of its party. The longest-standing member takes over
+// from a leader, and a party nobody is left in is dropped.
+function removePartyMember(address) {
+  const key = address.toLowerCase();
+  const party = parties.get(key);
+  if (!party) return;
+
+  const member = party.members.get(key);
+  clearTimeout(member.returnTimer);
+  party.members.delete(key);
+  parties.delete(key);
+  if (member.socket) {
+    member.socket.emit("party-update", { party: null });
+  }
+
+  if (party.members.size === 0) {
+    partyCodes.delete(party.code);
+    console.log(`Disbanded party ${party.id}`);
+    return;
+  }
+
+  if (party.leader === key) {
+    party.leader = party.members.keys().next().value;
+  }
+  broadcastPartyUpdate(party);
+}
+
+// Hand a party member's place over to the socket they joined matching with
+function reconnectPartyMember(socket, address) {
+  const party = parties.get(address.toLowerCase());
+  if (!party) return;
+
+  const member = party.members.get(address.toLowerCase());
+  clearTimeout(member.returnTimer);
+  member.returnTimer = null;
+  member.socket = socket;
+
+  broadcastPartyUpdate(party);
+}
+
+// Mark a party member whose matching socket closed as away. Members are
+// away while they play a match, so they are only dropped once they have
+// been away for PARTY_RETURN_PERIOD without being in one.
+function disconnectPartyMember(socket) {
+  const address = socket.data.address;
+  const party = address && parties.get(address.toLowerCase());
+  if (!party) return;
+
+  const member = party.members.get(address.toLowerCase());
+  if (member.socket !== socket) return;
+
+  member.socket = null;
+  const expire = () => {
+    if (isInMatch(address)) {
+      member.returnTimer = setTimeout(expire, PARTY_RETURN_PERIOD);
+      return;
+    }
+    console.log(`Dropping ${address} from party ${party.id}, they left`);
+    removePartyMember(address);
+  };
+  member.returnTimer = setTimeout(expire, PARTY_RETURN_PERIOD);
+
+  broadcastPartyUpdate(party);
+}
+
+// True if a wallet is on the roster of a running match
+function isInMatch(address) {
+  return Array.from(lobbies.values()).some(
+    (lobby) => lobby.match && lobby.match.roster.has(address.toLowerCase())
+  );
+}
+
+// Find the matching socket of a signed-in wallet, if it is in a lobby
+function findLobbySocket(address) {
+  for (const lobby of lobbies.values()) {
+    for (const player of lobby.players.values()) {
+      if (player.address.toLowerCase() === address.toLowerCase()) {
+        return player.socket;
+      }
+    }
+  }
+  return null;
+}
+
+// Send every connected member the party as it is now
+function broadcastPartyUpdate(party) {
+  const partyData = getPartyData(party);
+  party.members.forEach((member) => {
+    if (member.socket) {
+      member.socket.emit("party-update", { party: partyData });
+    }
+  });
+}
+
+// Public view of a party
+function getPartyData(party) {
+  return {
+    partyId: party.id,
+    code: party.code,
+    leader: party.members.get(party.leader).address,
+    members: Array.from(party.members.values()).map((member) => ({
+      address: member.address,
+      online: !!member.socket,
+    })),
+  };
+}
+
+// Bring a leader's party into one lobby: the leader's own if the rest of
+// the party fits in, otherwise the closest lobby with room for all of them
+function queueParty(socket, address, party) {
+  const members = Array.from(party.members.values());
+  const leaderLobby = lobbies.get(playerLobbyMap.get(socket.id));
+  const others = members.filter(
+    (member) => !leaderLobby || !leaderLobby.players.has(member.socket.id)
+  );
+  if (others.length === 0) return;
+
+  others.forEach((member) => removePlayerFromLobby(member.socket.id));
+  if (
+    leaderLobby &&
+    canJoinLobby(
+      leaderLobby,
+      others.map((member) => member.address)
+    )
+  ) {
+    others.forEach((member) => {
+      putPlayerInLobby(member.socket, member.address, leaderLobby);
+      sendLobbyJoined(member.socket, leaderLobby);
+    });
+    return;
+  }
+
+  members.forEach((member) => removePlayerFromLobby(member.socket.id));
+  const lobby = addPlayerToLobby(socket, address, { party: party });
+  members.forEach((member) => sendLobbyJoined(member.socket, lobby));
+  console.log(`Queued party ${party.id} into lobby ${lobby.id}`);
+}
+
 // ===============================================
 // GAME MECHANICS (Your existing game logic)
 // ===============================================
 
-// Game state
-const players = {};
-const SPAWN_POINTS = [
-  { x: 200, y: 686 }, // Left side spawn
-  { x: 3000, y: 686 }, // Right side spawn
-];
+// Look up the match a game socket has joined
+function getSocketMatch(socketId) {
+  const lobbyId = playerMatchMap.get(socketId);
+  if (!lobbyId) return null;
+
+  const lobby = lobbies.get(lobbyId);
+  return lobby ? lobby.match : null;
+}
+
+// Remove a game socket from its match. The match holds the player for a
+// while and calls closeMatch() once nobody is left.
+function leaveMatch(socket) {
+  const lobbyId = playerMatchMap.get(socket.id);
+  if (!lobbyId) return;
+
+  playerMatchMap.delete(socket.id);
+
+  const lobby = lobbies.get(lobbyId);
+  if (!lobby || !lobby.match) return;
+
+  socket.leave(lobby.match.room);
+  removePlayerFromMatch(lobby.match, socket.id);
+}
+
+// Rate the players of a finished match, then close it. Bots have no
+// rating, so only the humans' results count.
+function finishMatch(lobby, match, results) {
+  const humanResults = {
+    ...results,
+    players: results.players.filter((player) => !player.bot),
+  };
+  updateRatings(humanResults).forEach((change) => {
+    console.log(
+      `Rating of ${change.address}: ${change.before} -> ${change.after}`
+    );
+  });
+
+  closeMatch(lobby, match);
+}
+
+// Tear down a match that finished or that nobody is left in, and open its
+// lobby for the next one
+function closeMatch(lobby, match) {
+  if (lobby.match !== match) return;
+
+  disposeMatch(match);
+  lobby.match = null;
+  lobby.state = "waiting";
+
+  // Game sockets still on the results screen no longer belong to a match
+  playerMatchMap.forEach((lobbyId, socketId) => {
+    if (lobbyId === lobby.id) playerMatchMap.delete(socketId);
+  });
+
+  // Give the players some time to come back before dropping the lobby
+  setTimeout(() => {
+    if (
+      lobbies.get(lobby.id) === lobby &&
+      lobby.players.size === 0 &&
+      !lobby.match
+    ) {
+      deleteLobby(lobby);
+      console.log(`Deleted lobby ${lobby.id} nobody returned to`);
+    }
+  }, LOBBY_RETURN_PERIOD);
+
+  broadcastLobbyUpdate(lobby);
+}
 
 // Handle socket connections
 io.on("connection", (socket) => {
@@ -227,32 +1101,98 @@ io.on("connection", (socket) => {
   // MATCHING SYSTEM SOCKET HANDLERS
   // ===============================================
 
+  // Handle a player asking for a nonce to sign in with
+  onClientEvent(socket, "request-sign-in", () => {
+    socket.emit("sign-in-challenge", issueSignInNonce(socket));
+  });
+
   // Handle player joining the matching system
-  socket.on("join-matching", (data) => {
+  onClientEvent(socket, "join-matching", (data) => {
+    // Only a signature from the wallet proves the player owns the address,
+    // or a session token handed out for one
+    const signIn = data.session
+      ? resumeSession(socket, data.address, data.session)
+      : verifySignIn(
+          socket,
+          data.address,
+          data.message || "",
+          data.signature || ""
+        );
+    if (signIn.error) {
+      console.warn(`Player ${socket.id} failed to sign in: ${signIn.error}`);
+      socket.emit("sign-in-failed", { reason: signIn.error });
+      return;
+    }
+    if (!data.session) {
+      socket.emit("signed-in", issueSession(signIn.address));
+    }
+
     console.log(
-      `Player ${socket.id} joining matching with address ${data.address}`
+      `Player ${socket.id} joining matching with address ${signIn.address}`
     );
 
-    // Add player to a lobby
-    const lobby = addPlayerToLobby(socket, data.address);
+    // Back in their party if they are in one
+    reconnectPartyMember(socket, signIn.address);
+
+    // Add player to a lobby, unless they are in one already
+    const lobby =
+      lobbies.get(playerLobbyMap.get(socket.id)) ||
+      addPlayerToLobby(socket, signIn.address, {
+        lobbyId: data.lobbyId,
+        code: data.code,
+      });
+
+    // An invite link whose lobby is gone or full ends up in a public lobby
+    if (data.code && lobby !== findLobbyByCode(data.code)) {
+      socket.emit("lobby-join-failed", {
+        reason: "That private lobby is full or no longer exists",
+      });
+    }
 
     // Send initial lobby state to the player
-    const playerData = Array.from(lobby.players.values()).map((player) => ({
-      id: player.id,
-      address: player.address,
-      ready: player.ready,
-    }));
+    sendLobbyJoined(socket, lobby);
+  });
 
-    socket.emit("matching-joined", {
-      success: true,
-      lobbyId: lobby.id,
-      players: playerData,
-      state: lobby.state,
-    });
+  // Handle a signed-in player opening a private lobby of their own
+  onClientEvent(socket, "create-private-lobby", () => {
+    const address = socket.data.address;
+    if (!address) return;
+
+    const current = lobbies.get(playerLobbyMap.get(socket.id));
+    if (current && current.state !== "waiting") return;
+
+    removePlayerFromLobby(socket.id);
+    const lobby = createLobby(true);
+    putPlayerInLobby(socket, address, lobby);
+    sendLobbyJoined(socket, lobby);
+  });
+
+  // Handle a signed-in player entering an invite code
+  onClientEvent(socket, "join-private-lobby", (data) => {
+    const address = socket.data.address;
+    if (!address) return;
+
+    const current = lobbies.get(playerLobbyMap.get(socket.id));
+    if (current && current.state !== "waiting") return;
+
+    const lobby = findLobbyByCode(data.code);
+    if (lobby === current) return;
+    if (!lobby || !canJoinLobby(lobby, [address])) {
+      socket.emit("lobby-join-failed", {
+        reason: lobby
+          ? "That private lobby is full, locked or already playing"
+          : "No private lobby has that code",
+      });
+      return;
+    }
+
+    removePlayerFromLobby(socket.id);
+    putPlayerInLobby(socket, address, lobby);
+    sendLobbyJoined(socket, lobby);
   });
 
   // Handle player ready status
-  socket.on("player-ready", (data) => {
+  onClientEvent(socket, "player-ready", (data) => {
     const lobbyId = playerLobbyMap.get(socket.id);
     if (!lobbyId) return;
 
@@ -269,9 +1209,10 @@ io.on("connection", (socket) => {
     // Broadcast updated player list
     broadcastLobbyUpdate(lobby);
 
-    // Check if all players are ready to start the countdown
+    // Check if all players are ready to start the countdown. Private
+    // lobbies wait for their host to start.
     if (data.ready) {
-      startLobbyCountdown(lobby);
+      if (!lobby.code) startLobbyCountdown(lobby);
     } else {
       // If a player is no longer ready, cancel the countdown
       if (lobby.countdown) {
@@ -283,302 +1224,340 @@ io.on("connection", (socket) => {
         lobby.players.forEach((p) => {
           p.socket.emit("countdown-cancelled");
         });
+        broadcastLobbyUpdate(lobby);
       }
     }
   });
 
-  // Handle player requesting to start the game
-  socket.on("start-game", () => {
-    const lobbyId = playerLobbyMap.get(socket.id);
-    if (!lobbyId) return;
-
-    const lobby = lobbies.get(lobbyId);
-    if (!lobby || lobby.state !== "waiting") return;
+  // Handle the host starting the game
+  onClientEvent(socket, "start-game", () => {
+    const lobby = getHostedLobby(socket.id);
+    if (!lobby) return;
 
     // Check if all players are ready
     const allReady = Array.from(lobby.players.values()).every(
       (player) => player.ready
     );
-    if (!allReady || lobby.players.size < 2) return;
+    if (!allReady || lobby.players.size + lobby.bots.length < 2) return;
 
     // Start the countdown
     startLobbyCountdown(lobby);
   });
 
-  // Handle player leaving the matching system
-  socket.on("leave-matching", () => {
-    removePlayerFromLobby(socket.id);
-  });
+  // Handle the host removing a player, who goes back to matchmaking and
+  // can't return to this lobby
+  onClientEvent(socket, "kick-lobby-player", (data) => {
+    const lobby = getHostedLobby(socket.id);
+    if (!lobby || data.playerId === socket.id) return;
 
-  // ===============================================
-  // GAME MECHANICS SOCKET HANDLERS (Your existing code)
-  // ===============================================
+    const player = lobby.players.get(data.playerId);
+    if (!player) return;
 
-  // Assign a spawn point (alternating between the two)
-  const spawnPointIndex = Object.keys(players).length % 2;
-  const spawnPoint = SPAWN_POINTS[spawnPointIndex];
-
-  // Create a new player
-  players[socket.id] = {
-    x: spawnPoint.x,
-    y: spawnPoint.y,
-    playerId: socket.id,
-    spawnPointIndex: spawnPointIndex,
-    flipX: false,
-    health: 10, // Starting health
-    isDead: false, // Death state
-    lastHitBy: null, // Track who hit this player last
-    respawning: false, // Track if player is in respawn cooldown
-  };
+    lobby.banned.add(player.address.toLowerCase());
+    removePlayerFromLobby(player.id);
+    console.log(`Host ${socket.id} kicked ${player.id} from lobby ${lobby.id}`);
 
-  // Send the current players to the new player
-  socket.emit("currentPlayers", players);
+    player.socket.emit("kicked", {
+      reason: "The host removed you from the lobby",
+    });
+    sendLobbyJoined(
+      player.socket,
+      addPlayerToLobby(player.socket, player.address, {})
+    );
+  });
 
-  // Inform all other players about the new player
-  socket.broadcast.emit("newPlayer", players[socket.id]);
+  // Handle the host handing the lobby to another player
+  onClientEvent(socket, "transfer-host", (data) => {
+    const lobby = getHostedLobby(socket.id);
+    if (!lobby || !lobby.players.has(data.playerId)) return;
 
-  // Handle player movement
-  socket.on("playerMovement", (movementData) => {
-    // Skip if player is dead or doesn't exist
-    if (!players[socket.id] || players[socket.id].isDead) return;
+    lobby.hostId = data.playerId;
+    broadcastLobbyUpdate(lobby);
+  });
 
-    players[socket.id].x = movementData.x;
-    players[socket.id].y = movementData.y;
-    players[socket.id].flipX = movementData.flipX;
+  // Handle the host closing the lobby to new players, or opening it again
+  onClientEvent(socket, "set-lobby-locked", (data) => {
+    const lobby = getHostedLobby(socket.id);
+    if (!lobby) return;
 
-    // If client sent health, update it (only accept if lower to prevent cheating)
-    if (
-      movementData.health !== undefined &&
-      movementData.health < players[socket.id].health
-    ) {
-      players[socket.id].health = movementData.health;
+    lobby.locked = data.locked;
+    broadcastLobbyUpdate(lobby);
+  });
+
+  // Handle the host changing the lobby size or match limits
+  onClientEvent(socket, "update-lobby-settings", (data) => {
+    const lobby = getHostedLobby(socket.id);
+    if (!lobby) return;
+
+    const result = updateLobbySettings(lobby, data);
+    if (result.error) {
+      socket.emit("lobby-action-failed", { reason: result.error });
+      return;
     }
+    broadcastLobbyUpdate(lobby);
+  });
 
-    // Broadcast the movement to all other players
-    socket.broadcast.emit("playerMoved", players[socket.id]);
+  // Handle player leaving the matching system
+  onClientEvent(socket, "leave-matching", () => {
+    removePlayerFromLobby(socket.id);
   });
 
-  // Handle player shooting
-  socket.on("playerShoot", (bulletData) => {
-    // Skip if player is dead or doesn't exist
-    if (!players[socket.id] || players[socket.id].isDead) return;
+  // Handle a signed-in player starting a party, leaving any other one
+  onClientEvent(socket, "create-party", () => {
+    const address = socket.data.address;
+    if (!address) return;
 
-    // Broadcast the bullet to all other players
-    socket.broadcast.emit("bulletCreated", {
-      ...bulletData,
-      playerId: socket.id,
-    });
+    removePartyMember(address);
+    createParty(socket, address);
+  });
+
+  // Handle the party leader inviting a wallet that is in matchmaking. The
+  // invite carries the party code, which the player joins with.
+  onClientEvent(socket, "invite-to-party", (data) => {
+    const address = socket.data.address;
+    const party = address && parties.get(address.toLowerCase());
+    if (!party || party.leader !== address.toLowerCase()) return;
+
+    const invitee = findLobbySocket(data.address);
+    if (!invitee || invitee === socket) {
+      socket.emit("party-action-failed", {
+        reason: "That player isn't in matchmaking right now",
+      });
+      return;
+    }
+    if (party.members.size >= MAX_PARTY_SIZE) {
+      socket.emit("party-action-failed", { reason: "Your party is full" });
+      return;
+    }
+
+    invitee.emit("party-invite", { code: party.code, from: address });
   });
 
-  // Handle bullet hit detection
-  socket.on("hitPlayer", (data) => {
-    const { targetId } = data;
+  // Handle a signed-in player joining a party with its code, leaving any
+  // other one
+  onClientEvent(socket, "join-party", (data) => {
+    const address = socket.data.address;
+    if (!address) return;
 
-    // Validate target exists and is not already dead
-    if (!players[targetId] || players[targetId].isDead) {
-      console.log(
-        `Bullet hit invalid: Target ${targetId} doesn't exist or is already dead`
-      );
+    const party = findPartyByCode(data.code);
+    if (!party) {
+      socket.emit("party-action-failed", {
+        reason: "No party has that code",
+      });
+      return;
+    }
+    if (party.members.has(address.toLowerCase())) return;
+    if (party.members.size >= MAX_PARTY_SIZE) {
+      socket.emit("party-action-failed", { reason: "That party is full" });
       return;
     }
 
-    // Record who hit this player
-    players[targetId].lastHitBy = socket.id;
+    removePartyMember(address);
+    addPartyMember(party, socket, address);
+  });
 
-    // Reduce target health - but make sure it doesn't go below 0
-    players[targetId].health = Math.max(0, players[targetId].health - 1);
+  // Handle a player leaving their party
+  onClientEvent(socket, "leave-party", () => {
+    if (socket.data.address) {
+      removePartyMember(socket.data.address);
+    }
+  });
 
-    console.log(`BULLET HIT: Player ${targetId} hit by ${socket.id}`);
-    console.log(`New Health: ${players[targetId].health}`);
+  // Handle the party leader queueing everyone into the same lobby
+  onClientEvent(socket, "queue-party", () => {
+    const address = socket.data.address;
+    const party = address && parties.get(address.toLowerCase());
+    if (!party || party.leader !== address.toLowerCase()) return;
 
-    // Broadcast damage to all players
-    io.emit("playerDamaged", {
-      playerId: targetId,
-      health: players[targetId].health,
-      shooterId: socket.id,
+    const members = Array.from(party.members.values());
+    if (members.some((member) => !member.socket)) {
+      socket.emit("party-action-failed", {
+        reason: "Wait until everyone in your party is online",
+      });
+      return;
+    }
+    const busy = members.some((member) => {
+      const lobby = lobbies.get(playerLobbyMap.get(member.socket.id));
+      return lobby && lobby.state !== "waiting";
     });
-
-    // Check if player died from this hit - only if health is exactly 0
-    // This prevents handling death multiple times for the same player
-    if (players[targetId].health === 0 && !players[targetId].isDead) {
-      console.log(`Player ${targetId} killed - health reached 0`);
-      handlePlayerDeath(targetId, socket.id);
-    } else {
-      console.log(
-        `Player ${targetId} still alive with ${players[targetId].health} health`
-      );
+    if (busy) {
+      socket.emit("party-action-failed", {
+        reason: "Someone in your party is already starting a game",
+      });
+      return;
     }
+
+    queueParty(socket, address, party);
   });
 
-  // Handle player being hit by a bullet
-  socket.on("bulletHitMe", (data) => {
-    console.log("SERVER: bulletHitMe event data:", data);
-    // Use a fallback ID if shooterId is undefined
-    const shooterId = data.shooterId || "SYSTEM";
+  // Handle a chat message to everyone in the player's lobby
+  onClientEvent(socket, "lobby-chat", (data) => {
+    const lobby = lobbies.get(playerLobbyMap.get(socket.id));
+    const player = lobby && lobby.players.get(socket.id);
+    if (!player) return;
+
+    const message = createChatMessage(
+      "lobby",
+      socket.id,
+      player.address,
+      data.text
+    );
+    if (!message) return;
 
-    console.log(
-      `SERVER: bulletHitMe event - Player ${socket.id} hit by ${shooterId}`
+    sendChatMessage(
+      Array.from(lobby.players.values()).map((p) => p.socket),
+      message
     );
+  });
+
+  // Handle a player muting or unmuting someone, in a lobby or a match
+  onClientEvent(socket, "mute-player", (data) => {
+    setMuted(socket, data.address, data.muted);
+  });
+
+  // ===============================================
+  // GAME MECHANICS SOCKET HANDLERS (Your existing code)
+  // ===============================================
+
+  // Handle a game client joining the match for its lobby
+  onClientEvent(socket, "join-match", (data) => {
+    const lobbyId = data.lobbyId;
+    const lobby = lobbies.get(lobbyId);
+
+    if (!lobby || !lobby.match) {
+      socket.emit("match-join-failed", { reason: "Match not found" });
+      return;
+    }
+
+    // Leave any previous match first
+    leaveMatch(socket);
 
-    // Skip if player doesn't exist or is already dead
-    if (!players[socket.id] || players[socket.id].isDead) {
+    const result = addPlayerToMatch(
+      lobby.match,
+      socket,
+      data.address,
+      data.sessionToken
+    );
+    if (result.error) {
       console.log(
-        `SERVER: bulletHitMe invalid - Player doesn't exist or is already dead`
+        `Player ${socket.id} could not join ${lobbyId}: ${result.error}`
       );
+      socket.emit("match-join-failed", { reason: result.error });
       return;
     }
 
-    // Record who hit this player
-    players[socket.id].lastHitBy = shooterId;
+    playerMatchMap.set(socket.id, lobby.id);
+  });
 
-    // Reduce health
-    const previousHealth = players[socket.id].health;
-    players[socket.id].health = Math.max(0, players[socket.id].health - 1);
+  // Handle a game socket asking to watch a match. Spectators are in the
+  // match room, but the match ignores their gameplay events.
+  onClientEvent(socket, "spectate-match", (data) => {
+    const lobby = data.code
+      ? findLobbyByCode(data.code)
+      : lobbies.get(data.lobbyId);
+    const match = lobby && lobby.match;
+    if (!match) {
+      socket.emit("match-join-failed", { reason: "Match not found" });
+      return;
+    }
 
-    console.log(
-      `SERVER: Health BEFORE: ${previousHealth}, AFTER: ${
-        players[socket.id].health
-      }`
-    );
+    // Private matches are only shown to those with the code or a seat
+    const invited =
+      !!data.code ||
+      (!!data.sessionToken && isRosterSession(match, data.sessionToken));
+    if (lobby.code && !invited) {
+      socket.emit("match-join-failed", { reason: "This match is private" });
+      return;
+    }
 
-    // Broadcast damage to all players
-    io.emit("playerDamaged", {
-      playerId: socket.id,
-      health: players[socket.id].health,
-      shooterId: shooterId,
-    });
+    leaveMatch(socket);
 
-    // Check if player died from this hit
-    if (players[socket.id].health === 0 && !players[socket.id].isDead) {
-      console.log(
-        `SERVER: Player ${socket.id} health reached 0 - triggering death`
-      );
-      handlePlayerDeath(socket.id, shooterId);
-    } else {
-      console.log(
-        `SERVER: Player ${socket.id} still alive with ${
-          players[socket.id].health
-        } health`
-      );
+    const result = addSpectator(match, socket);
+    if (result.error) {
+      socket.emit("match-join-failed", { reason: result.error });
+      return;
     }
+
+    playerMatchMap.set(socket.id, lobby.id);
   });
 
-  // Handle player death signal from client
-  socket.on("playerDied", () => {
-    if (!players[socket.id] || players[socket.id].isDead) return;
+  // Handle an input command - the match moves the player on a later tick
+  onClientEvent(socket, "playerInput", (input) => {
+    const match = getSocketMatch(socket.id);
+    if (!match) return;
 
-    handlePlayerDeath(socket.id, players[socket.id].lastHitBy);
+    queueInput(match, socket.id, input);
   });
 
-  // Handle player respawn signal from client
-  socket.on("playerRespawned", (data) => {
-    if (!players[socket.id]) return;
+  // Handle the answer to a latencyPing, used to lag compensate this player
+  onClientEvent(socket, "latencyPong", (pongData) => {
+    const match = getSocketMatch(socket.id);
+    if (!match) return;
 
-    // Use client position if provided, otherwise use spawn point
-    if (data && data.x !== undefined && data.y !== undefined) {
-      players[socket.id].x = data.x;
-      players[socket.id].y = data.y;
-    } else {
-      // Alternate spawn points for fairness
-      players[socket.id].spawnPointIndex =
-        (players[socket.id].spawnPointIndex + 1) % SPAWN_POINTS.length;
-      const spawnPoint = SPAWN_POINTS[players[socket.id].spawnPointIndex];
-      players[socket.id].x = spawnPoint.x;
-      players[socket.id].y = spawnPoint.y;
-    }
+    recordLatency(match, socket.id, pongData);
+  });
 
-    // Reset player state
-    players[socket.id].health = 10;
-    players[socket.id].isDead = false;
-    players[socket.id].respawning = false;
+  // Handle a client confirming it decoded a snapshot, the next delta baseline
+  onClientEvent(socket, "snapshotAck", (ackData) => {
+    const match = getSocketMatch(socket.id);
+    if (!match) return;
 
-    // Broadcast respawn to all players
-    io.emit("playerRespawned", {
-      playerId: socket.id,
-      x: players[socket.id].x,
-      y: players[socket.id].y,
-    });
+    acknowledgeSnapshot(match, socket.id, ackData);
   });
 
-  // Handle player disconnection
-  socket.on("disconnect", () => {
-    console.log("Player disconnected:", socket.id);
-
-    // Remove from matching system if they're in a lobby
-    removePlayerFromLobby(socket.id);
+  // Handle player respawn signal from client. The server picks the spawn
+  // point and normally respawns players itself, so this only helps a dead
+  // player whose respawn timer was lost.
+  onClientEvent(socket, "playerRespawned", () => {
+    const match = getSocketMatch(socket.id);
+    if (!match) return;
 
-    // Remove the player from the game
-    delete players[socket.id];
+    const player = match.players[socket.id];
+    if (!player || !player.isDead || match.respawnTimers.has(socket.id)) return;
 
-    // Inform all other players
-    io.emit("playerDisconnected", socket.id);
+    respawnPlayer(match, socket.id);
   });
-});
 
-// Helper function to handle player death
-function handlePlayerDeath(playerId, killerId) {
-  console.log(`SERVER: handlePlayerDeath called for ${playerId}`);
-  console.log(
-    `SERVER: Player state - Health: ${players[playerId]?.health}, IsDead: ${players[playerId]?.isDead}`
-  );
+  // Handle a chat message to the whole match
+  onClientEvent(socket, "match-chat", (data) => {
+    const match = getSocketMatch(socket.id);
+    const player = match && match.players[socket.id];
+    if (!player) return;
 
-  if (!players[playerId] || players[playerId].isDead) {
-    console.log(
-      `SERVER: Death handling aborted - Player doesn't exist or is already dead`
+    const message = createChatMessage(
+      data.channel,
+      socket.id,
+      player.address,
+      data.text
     );
-    return;
-  }
+    if (!message) return;
 
-  // Mark player as dead
-  players[playerId].isDead = true;
-  players[playerId].health = 0;
-  players[playerId].respawning = true;
+    sendChatMessage(
+      getChatRecipients(match)
+        .map((playerId) => io.sockets.sockets.get(playerId))
+        .filter(Boolean),
+      message
+    );
+  });
 
-  console.log(
-    `SERVER: Player ${playerId} marked as dead, emitting playerDied event`
-  );
+  // Handle player disconnection
+  socket.on("disconnect", () => {
+    console.log("Player disconnected:", socket.id);
+
+    // Remove from matching system if they're in a lobby
+    removePlayerFromLobby(socket.id);
+    disconnectPartyMember(socket);
 
-  // Broadcast death to all players
-  io.emit("playerDied", {
-    playerId: playerId,
-    killedBy: killerId,
+    // Remove the player from their match
+    leaveMatch(socket);
   });
+});
 
-  // Auto-respawn after 3 seconds
-  setTimeout(() => {
-    if (players[playerId] && players[playerId].isDead) {
-      // Alternate spawn points for fairness
-      players[playerId].spawnPointIndex =
-        (players[playerId].spawnPointIndex + 1) % SPAWN_POINTS.length;
-      const spawnPoint = SPAWN_POINTS[players[playerId].spawnPointIndex];
-
-      // Reset player state
-      players[playerId].x = spawnPoint.x;
-      players[playerId].y = spawnPoint.y;
-      players[playerId].health = 10;
-      players[playerId].isDead = false;
-      players[playerId].respawning = false;
-
-      // Broadcast respawn to all players
-      io.emit("playerRespawned", {
-        playerId: playerId,
-        x: players[playerId].x,
-        y: players[playerId].y,
-      });
-      console.log(`SERVER: Sent playerRespawned event for ${playerId}`);
-    } else {
-      console.log(
-        `SERVER: Player ${playerId} no longer exists or is not dead - skipping respawn`
-      );
-    }
-  }, 3000);
+// Group waiting players into fuller lobbies as their search windows widen
+setInterval(mergeWaitingLobbies, MATCHMAKING_INTERVAL);
 
-  // Could add kill stats here if desired
-  if (killerId && players[killerId]) {
-    players[killerId].kills = (players[killerId].kills || 0) + 1;
-    console.log(`Player ${killerId} now has ${players[killerId].kills} kills`);
-  }
-}
+// Fill lobbies that waited too long with bots
+setInterval(fillLobbiesWithBots, MATCHMAKING_INTERVAL);
 
 // Start the server
 const PORT = process.env.PORT || 4000;
@@ -0,0 +1,196 @@
+// @ts-check
+
+// ===============================================
+// PAYLOAD VALIDATION
+// ===============================================
+
+// Runtime schemas for every event a client can send, mirroring
+// ClientToServerEvents in src/shared/protocol.ts. Handlers registered with
+// onClientEvent() only ever see payloads that passed their schema and the
+// event's rate limit (see rateLimit.js); anything else is dropped.
+
+const { allowEvent, recordDrop } = require("./rateLimit");
+const { MAX_CHAT_LENGTH } = require("./chat");
+const { MAPS } = require("../src/shared/simulation");
+
+/**
+ * @typedef {import("../src/shared/protocol").ClientToServerEvents} ClientToServerEvents
+ * @typedef {import("../src/shared/protocol").ServerToClientEvents} ServerToClientEvents
+ * @typedef {import("socket.io").Socket<ClientToServerEvents, ServerToClientEvents>} GameSocket
+ * @typedef {(value: unknown) => string | null} FieldCheck Returns an error, or null if the value is fine
+ * @typedef {Record<string, FieldCheck> | null} Schema Null for events without a payload
+ */
+
+const MAX_ID_LENGTH = 64;
+const MAX_ADDRESS_LENGTH = 64;
+const MAX_SIGN_IN_MESSAGE_LENGTH = 1024;
+const MAX_SIGNATURE_LENGTH = 256;
+const MAX_INVITE_CODE_LENGTH = 16;
+
+/** @param {number} maxLength @returns {FieldCheck} */
+function string(maxLength) {
+  return (value) =>
+    typeof value === "string" && value.length <= maxLength
+      ? null
+      : `expected a string of at most ${maxLength} characters`;
+}
+
+/** @returns {FieldCheck} */
+function number() {
+  return (value) =>
+    typeof value === "number" && Number.isFinite(value)
+      ? null
+      : "expected a finite number";
+}
+
+/** @returns {FieldCheck} */
+function boolean() {
+  return (value) => (typeof value === "boolean" ? null : "expected a boolean");
+}
+
+/** @param {string[]} values @returns {FieldCheck} */
+function oneOf(values) {
+  return (value) =>
+    typeof value === "string" && values.includes(value)
+      ? null
+      : `expected one of ${values.join(", ")}`;
+}
+
+/** @param {FieldCheck} check @returns {FieldCheck} */
+function optional(check) {
+  return (value) =>
+    value === undefined || value === null ? null : check(value);
+}
+
+/** @type {{ [E in keyof ClientToServerEvents]: Schema }} */
+const CLIENT_EVENT_SCHEMAS = {
+  // Matching
+  "request-sign-in": null,
+  "join-matching": {
+    address: string(MAX_ADDRESS_LENGTH),
+    message: optional(string(MAX_SIGN_IN_MESSAGE_LENGTH)),
+    signature: optional(string(MAX_SIGNATURE_LENGTH)),
+    session: optional(string(MAX_ID_LENGTH)),
+    lobbyId: optional(string(MAX_ID_LENGTH)),
+    code: optional(string(MAX_INVITE_CODE_LENGTH)),
+  },
+  "create-private-lobby": null,
+  "join-private-lobby": { code: string(MAX_INVITE_CODE_LENGTH) },
+  "player-ready": { ready: boolean() },
+  "start-game": null,
+  "kick-lobby-player": { playerId: string(MAX_ID_LENGTH) },
+  "transfer-host": { playerId: string(MAX_ID_LENGTH) },
+  "set-lobby-locked": { locked: boolean() },
+  "update-lobby-settings": {
+    maxPlayers: optional(number()),
+    readyCheckTimeout: optional(number()),
+    timeLimit: optional(number()),
+    killLimit: optional(number()),
+    botDifficulty: optional(oneOf(["off", "easy", "normal", "hard"])),
+    map: optional(oneOf(MAPS)),
+    friendlyFire: optional(boolean()),
+  },
+  "leave-matching": null,
+  "create-party": null,
+  "invite-to-party": { address: string(MAX_ADDRESS_LENGTH) },
+  "join-party": { code: string(MAX_INVITE_CODE_LENGTH) },
+  "leave-party": null,
+  "queue-party": null,
+  "lobby-chat": { text: string(MAX_CHAT_LENGTH) },
+  "mute-player": { address: string(MAX_ADDRESS_LENGTH), muted: boolean() },
+
+  // Match
+  "join-match": {
+    lobbyId: string(MAX_ID_LENGTH),
+    address: string(MAX_ADDRESS_LENGTH),
+    sessionToken: string(MAX_ID_LENGTH),
+  },
+  "spectate-match": {
+    lobbyId: optional(string(MAX_ID_LENGTH)),
+    code: optional(string(MAX_INVITE_CODE_LENGTH)),
+    sessionToken: optional(string(MAX_ID_LENGTH)),
+  },
+  playerInput: {
+    seq: number(),
+    left: boolean(),
+    right: boolean(),
+    jump: boolean(),
+    fire: boolean(),
+    aim: number(),
+    bulletId: optional(string(MAX_ID_LENGTH)),
+  },
+  latencyPong: { id: number() },
+  snapshotAck: { tick: number() },
+  playerRespawned: null,
+  "match-chat": {
+    text: string(MAX_CHAT_LENGTH),
+    channel: oneOf(["all"]),
+  },
+};
+
+/**
+ * Check a payload against its event's schema
+ * @param {keyof ClientToServerEvents} event
+ * @param {unknown} payload
+ * @returns {string | null} Why the payload was rejected, or null if it is valid
+ */
+function validatePayload(event, payload) {
+  const schema = CLIENT_EVENT_SCHEMAS[event];
+  if (schema === undefined) return "unknown event";
+  if (schema === null) return null;
+
+  if (typeof payload !== "object" || payload === null) {
+    return "expected an object payload";
+  }
+
+  const fields = /** @type {Record<string, unknown>} */ (payload);
+  for (const [field, check] of Object.entries(schema)) {
+    const error = check(fields[field]);
+    if (error) return `${field}: ${error}`;
+  }
+
+  return null;
+}
+
+/**
+ * Payload a client sends with an event
+ * @template {keyof ClientToServerEvents} E
+ * @typedef {Parameters<ClientToServerEvents[E]>[0]} ClientEventPayload
+ */
+
+/**
+ * What socket.on() takes for an event. TypeScript can't narrow it for an
+ * event that is still generic, so listeners are cast to it.
+ * @template {keyof ClientToServerEvents} E
+ * @typedef {import("socket.io/dist/typed-events").ReservedOrUserListener<import("socket.io/dist/socket-types").SocketReservedEventsMap, ClientToServerEvents, E>} ClientEventListener
+ */
+
+/**
+ * Register a handler that only runs for payloads matching the event's schema
+ * @template {keyof ClientToServerEvents} E
+ * @param {GameSocket} socket
+ * @param {E} event
+ * @param {(payload: ClientEventPayload<E>) => void} handler
+ */
+function onClientEvent(socket, event, handler) {
+  /** @param {ClientEventPayload<E>} payload */
+  const listener = (payload) => {
+    if (!allowEvent(socket, event)) return;
+
+    const error = validatePayload(event, payload);
+    if (error) {
+      console.warn(`Rejected malformed ${event} from ${socket.id}: ${error}`);
+      recordDrop(socket, event, "malformed");
+      return;
+    }
+
+    handler(payload);
+  };
+
+  socket.on(event, /** @type {ClientEventListener<E>} */ (listener));
+}
+
+module.exports = {
+  validatePayload,
+  onClientEvent,
+};
@@ -7,12 +7,15 @@ import { useAccount } from "wagmi";
 import { motion } from "framer-motion";
 import Image from "next/image";
 import Game from "@/components/Game";
+import type {
+  GamePlayerData,
+  GameStartPayload,
+  SpectateMatchPayload,
+} from "@/shared/protocol";
 
-interface GamePlayerData {
-  id: string;
-  address: string;
-  spawnPointIndex: number;
-}
+// sessionStorage key of the match this tab is playing, kept so a refresh
+// can rejoin it
+const MATCH_SESSION_KEY = "nootMatchSession";
 
 function GamePage() {
   const router = useRouter();
@@ -21,8 +24,13 @@ function GamePage() {
 
   const [isLoading, setIsLoading] = useState(true);
   const [gameData, setGameData] = useState<{
+    lobbyId?: string;
     players: GamePlayerData[];
+    sessionToken?: string;
+    spectate?: SpectateMatchPayload; // Set when only watching the match
   } | null>(null);
+  const [resumableSession, setResumableSession] =
+    useState<GameStartPayload | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -32,26 +40,57 @@ function GamePage() {
       return;
     }
 
+    // If no data was passed from matching, we'll initialize with default data
+    // This handles direct navigation to /game
+    const loadDefaultGameData = () => {
+      setGameData({
+        players: [
+          {
+            id: "local-player",
+            address: address as string,
+            spawnPointIndex: 0,
+          },
+        ],
+      });
+    };
+
+    // Watch a match from the matching page's list, or a private one by code
+    const params = new URLSearchParams(window.location.search);
+    const spectateLobbyId = params.get("spectate");
+    const spectateCode = params.get("spectateCode");
+
     // Try to get game data from sessionStorage (set during the matching process)
     try {
       const storedGameData = sessionStorage.getItem("nootGameData");
-      if (storedGameData) {
+      const savedSession = sessionStorage.getItem(MATCH_SESSION_KEY);
+      if (spectateLobbyId || spectateCode) {
+        setGameData({
+          lobbyId: spectateLobbyId || undefined,
+          players: [],
+          spectate: spectateCode
+            ? { code: spectateCode }
+            : { lobbyId: spectateLobbyId || undefined },
+        });
+      } else if (storedGameData) {
         const parsedData = JSON.parse(storedGameData);
         setGameData(parsedData);
-        // Clear the data after retrieving it to prevent stale data on refresh
+        // Clear the data after retrieving it to prevent stale data on refresh,
+        // but remember the match in case we need to rejoin it
         sessionStorage.removeItem("nootGameData");
-      } else {
-        // If no data was passed from matching, we'll initialize with default data
-        // This handles direct navigation to /game or page refreshes
-        setGameData({
-          players: [
-            {
-              id: "local-player",
-              address: address as string,
-              spawnPointIndex: 0,
-            },
-          ],
+        sessionStorage.setItem(MATCH_SESSION_KEY, storedGameData);
+      } else if (savedSession) {
+        // The page was refreshed mid-match - offer to rejoin if it still runs
+        const session: GameStartPayload = JSON.parse(savedSession);
+        checkMatchSession(session).then((alive) => {
+          if (alive) {
+            setResumableSession(session);
+          } else {
+            sessionStorage.removeItem(MATCH_SESSION_KEY);
+            loadDefaultGameData();
+          }
         });
+      } else {
+        loadDefaultGameData();
       }
     } catch (err) {
       console.error("Error parsing game data:", err);
@@ -84,6 +123,42 @@ function GamePage() {
     );
   }
 
+  // A match from before the refresh is still running - offer to rejoin it
+  if (resumableSession && !isLoading) {
+    return (
+      <div className="h-screen w-full bg-gray-900 flex flex-col items-center justify-center">
+        <div className="bg-black/60 p-6 rounded-lg max-w-md text-center">
+          <h2 className="text-2xl font-bold text-green-500 mb-4">
+            Match in progress
+          </h2>
+          <p className="text-green-300 mb-6">
+            You left a match that is still running.
+          </p>
+          <div className="flex gap-4 justify-center">
+            <button
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-500"
+              onClick={() => {
+                setGameData(resumableSession);
+                setResumableSession(null);
+              }}
+            >
+              Rejoin match
+            </button>
+            <button
+              className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600"
+              onClick={() => {
+                sessionStorage.removeItem(MATCH_SESSION_KEY);
+                router.push("/");
+              }}
+            >
+              Return to Main Menu
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // If still loading, show loading screen
   if (isLoading || !gameData) {
     return (
@@ -121,4 +196,23 @@ function GamePage() {
   );
 }
 
+// Ask the game server whether a saved match session can still be rejoined
+async function checkMatchSession(session: GameStartPayload): Promise<boolean> {
+  const serverUrl =
+    process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:4000";
+  const params = new URLSearchParams({
+    lobbyId: session.lobbyId,
+    token: session.sessionToken,
+  });
+
+  try {
+    const response = await fetch(`${serverUrl}/api/match-session?${params}`);
+    const data: { alive: boolean } = await response.json();
+    return data.alive;
+  } catch (err) {
+    console.error("Error checking match session:", err);
+    return false;
+  }
+}
+
 export default GamePage;
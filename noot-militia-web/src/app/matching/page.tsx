@@ -1,24 +1,65 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { usePrivy } from "@privy-io/react-auth";
-import { useAccount } from "wagmi";
-import matchingService from "@/utils/matchingService";
+import { useAccount, useChainId, useSignMessage } from "wagmi";
+import matchingService, { type MatchingWallet } from "@/utils/matchingService";
+import { getMutedAddresses } from "@/utils/chatMutes";
+import ChatPanel from "@/components/ChatPanel";
+import type {
+  ChatMessagePayload,
+  GameStartPayload,
+  LiveMatchSummary,
+  LobbySettings,
+  PartyData,
+  PartyInvitePayload,
+} from "@/shared/protocol";
 
 interface Player {
-  id: number;
+  id: string;
   address: string;
+  rating: number;
   ready: boolean;
+  bot: boolean;
   timestamp: number;
 }
 
+const MAX_CHAT_MESSAGES = 100; // Older lobby chat messages are dropped
+const MAX_PARTY_SIZE = 3; // The server turns away more
+const LIVE_MATCHES_INTERVAL = 5000; // Milliseconds between refreshes of the matches to watch
+
+// Choices the host gets for each lobby setting, 0 meaning no limit
+const MAX_PLAYER_OPTIONS = [2, 3, 4, 5, 6, 7, 8];
+const KILL_LIMIT_OPTIONS = [0, 10, 20, 30, 50];
+const TIME_LIMIT_OPTIONS = [0, 3, 5, 10, 15]; // Minutes
+const READY_CHECK_OPTIONS = [0, 15, 30, 60, 120]; // Seconds
+const BOT_DIFFICULTY_OPTIONS: LobbySettings["botDifficulty"][] = [
+  "off",
+  "easy",
+  "normal",
+  "hard",
+];
+const MAP_OPTIONS: LobbySettings["map"][] = ["arena"]; // See MAPS in shared/simulation.js
+
+// Options for a setting, including its current value if that isn't one
+const withCurrentOption = (options: number[], current: number) =>
+  options.includes(current)
+    ? options
+    : [...options, current].sort((a, b) => a - b);
+
 export default function MatchingPage() {
   const router = useRouter();
   const { authenticated, user: privyUser } = usePrivy();
   const { address } = useAccount();
+  const chainId = useChainId();
+  const { signMessageAsync } = useSignMessage();
+
+  // Signing in happens whenever the socket connects, with the latest wallet
+  const signerRef = useRef({ chainId, signMessageAsync });
+  signerRef.current = { chainId, signMessageAsync };
 
   // States for matching and players
   const [isJoining, setIsJoining] = useState(true);
@@ -29,6 +70,29 @@ export default function MatchingPage() {
   const [gameStarting, setGameStarting] = useState(false);
   const [countdown, setCountdown] = useState(0);
   const [connectionError, setConnectionError] = useState(false);
+  const [estimatedWait, setEstimatedWait] = useState<number | null>(null);
+  const [lobbyCode, setLobbyCode] = useState<string | null>(null);
+  const [inviteCode, setInviteCode] = useState("");
+  const [lobbyError, setLobbyError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [hostId, setHostId] = useState<string | null>(null);
+  const [lobbyLocked, setLobbyLocked] = useState(false);
+  const [lobbySettings, setLobbySettings] = useState<LobbySettings | null>(
+    null
+  );
+  const [readyCheckSecondsLeft, setReadyCheckSecondsLeft] = useState<
+    number | null
+  >(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessagePayload[]>([]);
+  const [mutedAddresses, setMutedAddresses] = useState<string[]>([]);
+  const [party, setParty] = useState<PartyData | null>(null);
+  const [partyInvite, setPartyInvite] = useState<PartyInvitePayload | null>(
+    null
+  );
+  const [partyCode, setPartyCode] = useState("");
+  const [partyInviteAddress, setPartyInviteAddress] = useState("");
+  const [partyError, setPartyError] = useState<string | null>(null);
+  const [liveMatches, setLiveMatches] = useState<LiveMatchSummary[]>([]);
 
   // Connect to the matching service when the component mounts
   useEffect(() => {
@@ -40,20 +104,54 @@ export default function MatchingPage() {
 
     // Show joining state
     setIsJoining(true);
+    setMutedAddresses(getMutedAddresses());
+
+    const handleReadyCheck = (timeLeft: number | null) => {
+      setReadyCheckSecondsLeft(
+        timeLeft === null ? null : Math.ceil(timeLeft / 1000)
+      );
+    };
+
+    const handleChatMessage = (message: ChatMessagePayload) => {
+      setChatMessages((messages) =>
+        [...messages, message].slice(-MAX_CHAT_MESSAGES)
+      );
+    };
 
     // Set up matching service event listeners
     matchingService.on("connected", handleConnected);
     matchingService.on("joined", handleJoined);
     matchingService.on("disconnected", handleDisconnected);
     matchingService.on("players-updated", handlePlayersUpdated);
+    matchingService.on("wait-estimate", setEstimatedWait);
+    matchingService.on("lobby-code", setLobbyCode);
+    matchingService.on("lobby-error", setLobbyError);
+    matchingService.on("lobby-host", setHostId);
+    matchingService.on("lobby-locked", setLobbyLocked);
+    matchingService.on("lobby-settings", setLobbySettings);
+    matchingService.on("ready-check", handleReadyCheck);
+    matchingService.on("chat-message", handleChatMessage);
+    matchingService.on("party-updated", setParty);
+    matchingService.on("party-invite", setPartyInvite);
+    matchingService.on("party-error", setPartyError);
     matchingService.on("countdown", handleCountdown);
     matchingService.on("countdown-cancelled", handleCountdownCancelled);
     matchingService.on("game-starting", handleGameStarting);
     matchingService.on("navigate-to-game", handleNavigateToGame);
     matchingService.on("error", handleError);
 
-    // Connect to the matching service
-    matchingService.connect(address);
+    // Connect to the matching service, back into our lobby after a match or
+    // into the private lobby of an invite link
+    const wallet: MatchingWallet = {
+      address,
+      getChainId: () => signerRef.current.chainId,
+      signMessage: (message) => signerRef.current.signMessageAsync({ message }),
+    };
+    const params = new URLSearchParams(window.location.search);
+    matchingService.connect(wallet, {
+      lobbyId: params.get("lobby") || undefined,
+      code: params.get("code") || undefined,
+    });
 
     // Clean up event listeners when the component unmounts
     return () => {
@@ -61,6 +159,17 @@ export default function MatchingPage() {
       matchingService.removeListener("joined", handleJoined);
       matchingService.removeListener("disconnected", handleDisconnected);
       matchingService.removeListener("players-updated", handlePlayersUpdated);
+      matchingService.removeListener("wait-estimate", setEstimatedWait);
+      matchingService.removeListener("lobby-code", setLobbyCode);
+      matchingService.removeListener("lobby-error", setLobbyError);
+      matchingService.removeListener("lobby-host", setHostId);
+      matchingService.removeListener("lobby-locked", setLobbyLocked);
+      matchingService.removeListener("lobby-settings", setLobbySettings);
+      matchingService.removeListener("ready-check", handleReadyCheck);
+      matchingService.removeListener("chat-message", handleChatMessage);
+      matchingService.removeListener("party-updated", setParty);
+      matchingService.removeListener("party-invite", setPartyInvite);
+      matchingService.removeListener("party-error", setPartyError);
       matchingService.removeListener("countdown", handleCountdown);
       matchingService.removeListener(
         "countdown-cancelled",
@@ -73,12 +182,36 @@ export default function MatchingPage() {
     };
   }, [authenticated, address, router]);
 
+  // Keep the list of public matches to watch up to date
+  useEffect(() => {
+    if (!hasJoined) return;
+
+    const refresh = () => fetchLiveMatches().then(setLiveMatches);
+    refresh();
+    const timer = setInterval(refresh, LIVE_MATCHES_INTERVAL);
+    return () => clearInterval(timer);
+  }, [hasJoined]);
+
+  // Count the ready check down between lobby updates
+  useEffect(() => {
+    if (readyCheckSecondsLeft === null || readyCheckSecondsLeft <= 0) return;
+
+    const timer = setTimeout(() => {
+      setReadyCheckSecondsLeft((seconds) =>
+        seconds === null ? null : seconds - 1
+      );
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [readyCheckSecondsLeft]);
+
   // Handler functions for matching service events
   const handleConnected = () => {
     setConnectionError(false);
   };
 
   const handleJoined = (lobbyId: string) => {
+    // Chat from a lobby we left isn't kept
+    setChatMessages([]);
     setLobbyId(lobbyId);
     setIsJoining(false);
     setHasJoined(true);
@@ -110,7 +243,7 @@ export default function MatchingPage() {
     setCountdown(0);
   };
 
-  const handleGameStarting = (gameData: any) => {
+  const handleGameStarting = (gameData: GameStartPayload) => {
     console.log("Game starting with data:", gameData);
 
     // Store the game data in sessionStorage so the game page can access it
@@ -145,10 +278,116 @@ export default function MatchingPage() {
     matchingService.startGame();
   };
 
+  // Handle opening a private lobby and entering an invite code
+  const handleCreatePrivateLobby = () => {
+    setLobbyError(null);
+    matchingService.createPrivateLobby();
+  };
+
+  const handleJoinPrivateLobby = () => {
+    if (!inviteCode.trim()) return;
+    setLobbyError(null);
+    matchingService.joinPrivateLobby(inviteCode.trim());
+  };
+
+  // Host controls
+  const handleKickPlayer = (playerId: string) => {
+    matchingService.kickPlayer(playerId);
+  };
+
+  const handleTransferHost = (playerId: string) => {
+    matchingService.transferHost(playerId);
+  };
+
+  const handleToggleLocked = () => {
+    matchingService.setLobbyLocked(!lobbyLocked);
+  };
+
+  const handleChangeSetting = (changes: Partial<LobbySettings>) => {
+    setLobbyError(null);
+    matchingService.updateLobbySettings(changes);
+  };
+
+  // Handle party actions
+  const handleCreateParty = () => {
+    setPartyError(null);
+    matchingService.createParty();
+  };
+
+  const handleJoinParty = (code: string) => {
+    if (!code.trim()) return;
+    setPartyError(null);
+    setPartyInvite(null);
+    matchingService.joinParty(code.trim());
+  };
+
+  const handleInviteToParty = () => {
+    if (!partyInviteAddress.trim()) return;
+    setPartyError(null);
+    matchingService.inviteToParty(partyInviteAddress.trim());
+    setPartyInviteAddress("");
+  };
+
+  const handleLeaveParty = () => {
+    setPartyError(null);
+    matchingService.leaveParty();
+  };
+
+  const handleQueueParty = () => {
+    setPartyError(null);
+    matchingService.queueParty();
+  };
+
+  // Handle watching a public match, or a private one by its invite code
+  const handleWatchMatch = (lobbyId: string) => {
+    router.push(`/game?spectate=${encodeURIComponent(lobbyId)}`);
+  };
+
+  const handleWatchPrivateMatch = () => {
+    if (!inviteCode.trim()) return;
+    router.push(`/game?spectateCode=${encodeURIComponent(inviteCode.trim())}`);
+  };
+
+  // Handle lobby chat
+  const handleSendChat = (text: string) => {
+    matchingService.sendChatMessage(text);
+  };
+
+  const handleToggleMute = (playerAddress: string) => {
+    setMutedAddresses(
+      matchingService.setPlayerMuted(
+        playerAddress,
+        !mutedAddresses.includes(playerAddress.toLowerCase())
+      )
+    );
+  };
+
+  // Copy the invite link of our private lobby
+  const handleCopyInviteLink = async () => {
+    if (!lobbyCode) return;
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/matching?code=${lobbyCode}`
+      );
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error("Error copying invite link:", err);
+    }
+  };
+
   // Check if all players are ready
   const allPlayersReady =
     players.length >= 2 && players.every((player) => player.ready);
 
+  // Only the party leader can queue the party
+  const isPartyLeader =
+    !!party && party.leader.toLowerCase() === address?.toLowerCase();
+
+  // Only the host can start the game and change the lobby
+  const isHost = hostId !== null && hostId === matchingService.getPlayerId();
+  const canStart = isHost && allPlayersReady;
+
   // Generate random positions for the background particles
   const generateRandomPosition = () => {
     return {
@@ -287,14 +526,14 @@ export default function MatchingPage() {
               <div className="mt-4 p-3 bg-red-900/50 border border-red-500 rounded-lg text-white">
                 <p className="font-bold mb-1">Connection Error</p>
                 <p className="text-sm">
-                  Could not connect to the matching server. Please check your
-                  connection and try again.
+                  Could not connect to the matching server or sign in with your
+                  wallet. Please check your connection and try again.
                 </p>
                 <button
                   className="mt-3 px-4 py-2 bg-red-700 rounded-md hover:bg-red-600 transition-colors"
                   onClick={() => {
                     setConnectionError(false);
-                    matchingService.connect(address || "");
+                    matchingService.reconnect();
                   }}
                 >
                   Retry Connection
@@ -338,16 +577,51 @@ export default function MatchingPage() {
                           {index + 1}
                         </span>
                       </div>
-                      <span className="text-white font-medium">
-                        {player.address.slice(0, 6)}...
-                        {player.address.slice(-4)}
-                      </span>
+                      <div>
+                        <span className="text-white font-medium">
+                          {player.bot
+                            ? player.address
+                            : `${player.address.slice(
+                                0,
+                                6
+                              )}...${player.address.slice(-4)}`}
+                        </span>
+                        <p className="text-gray-400 text-xs">
+                          {player.bot ? "Bot" : `Rating ${player.rating}`}
+                          {player.id === hostId && (
+                            <span className="ml-2 text-yellow-400 font-bold">
+                              Host
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {isHost &&
+                        player.id !== hostId &&
+                        !player.bot &&
+                        !gameStarting && (
+                          <>
+                            <button
+                              className="px-2 py-1 rounded bg-gray-600 text-white text-xs hover:bg-gray-500"
+                              onClick={() => handleTransferHost(player.id)}
+                            >
+                              Make host
+                            </button>
+                            <button
+                              className="px-2 py-1 rounded bg-red-700 text-white text-xs hover:bg-red-600"
+                              onClick={() => handleKickPlayer(player.id)}
+                            >
+                              Kick
+                            </button>
+                          </>
+                        )}
+                      <div
+                        className={`w-3 h-3 rounded-full ${
+                          player.ready ? "bg-green-500" : "bg-gray-500"
+                        }`}
+                      />
                     </div>
-                    <div
-                      className={`w-3 h-3 rounded-full ${
-                        player.ready ? "bg-green-500" : "bg-gray-500"
-                      }`}
-                    />
                   </motion.div>
                 ))}
 
@@ -405,6 +679,30 @@ export default function MatchingPage() {
                       </span>{" "}
                       players ready
                     </p>
+                    {readyCheckSecondsLeft !== null && (
+                      <p
+                        className={`text-sm mt-1 font-bold ${
+                          isReady ? "text-yellow-400" : "text-red-400"
+                        }`}
+                      >
+                        {isReady
+                          ? `Ready check: ${readyCheckSecondsLeft}s for the others`
+                          : `Ready up within ${readyCheckSecondsLeft}s or you'll be ${
+                              lobbyCode ? "unreadied" : "moved to a new lobby"
+                            }`}
+                      </p>
+                    )}
+                    <p className="text-gray-400 text-sm mt-1">
+                      Your rating:{" "}
+                      <span className="text-green-400 font-bold">
+                        {players.find((p) => p.address === address)?.rating ??
+                          "-"}
+                      </span>
+                      {estimatedWait !== null &&
+                        ` · Estimated wait: ~${Math.ceil(
+                          estimatedWait / 1000
+                        )}s`}
+                    </p>
                   </div>
 
                   <div className="flex space-x-4">
@@ -421,24 +719,417 @@ export default function MatchingPage() {
 
                     <motion.button
                       className={`px-5 py-3 rounded-lg ${
-                        allPlayersReady && isReady
+                        canStart
                           ? "bg-blue-600"
                           : "bg-gray-600 cursor-not-allowed"
                       } text-white font-bold`}
-                      whileHover={
-                        allPlayersReady && isReady ? { scale: 1.05 } : {}
-                      }
-                      whileTap={
-                        allPlayersReady && isReady ? { scale: 0.95 } : {}
-                      }
-                      onClick={
-                        allPlayersReady && isReady ? handleStartGame : undefined
-                      }
-                      disabled={!allPlayersReady || !isReady}
+                      whileHover={canStart ? { scale: 1.05 } : {}}
+                      whileTap={canStart ? { scale: 0.95 } : {}}
+                      onClick={canStart ? handleStartGame : undefined}
+                      disabled={!canStart}
                     >
-                      Start Game
+                      {isHost ? "Start Game" : "Waiting for Host"}
                     </motion.button>
                   </div>
+
+                  {/* Lobby settings, which only the host can change */}
+                  {lobbySettings && (
+                    <div className="mt-6 pt-4 border-t border-gray-700 w-full flex flex-col items-center">
+                      {isHost ? (
+                        <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-gray-300">
+                          <label className="flex items-center space-x-2">
+                            <span>Players</span>
+                            <select
+                              className="px-2 py-1 rounded-md bg-gray-900 text-white border border-gray-600"
+                              value={lobbySettings.maxPlayers}
+                              onChange={(e) =>
+                                handleChangeSetting({
+                                  maxPlayers: Number(e.target.value),
+                                })
+                              }
+                            >
+                              {withCurrentOption(
+                                MAX_PLAYER_OPTIONS,
+                                lobbySettings.maxPlayers
+                              ).map((option) => (
+                                <option key={option} value={option}>
+                                  {option}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center space-x-2">
+                            <span>Kill limit</span>
+                            <select
+                              className="px-2 py-1 rounded-md bg-gray-900 text-white border border-gray-600"
+                              value={lobbySettings.killLimit}
+                              onChange={(e) =>
+                                handleChangeSetting({
+                                  killLimit: Number(e.target.value),
+                                })
+                              }
+                            >
+                              {withCurrentOption(
+                                KILL_LIMIT_OPTIONS,
+                                lobbySettings.killLimit
+                              ).map((option) => (
+                                <option key={option} value={option}>
+                                  {option === 0 ? "None" : option}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center space-x-2">
+                            <span>Time limit</span>
+                            <select
+                              className="px-2 py-1 rounded-md bg-gray-900 text-white border border-gray-600"
+                              value={lobbySettings.timeLimit / 60000}
+                              onChange={(e) =>
+                                handleChangeSetting({
+                                  timeLimit: Number(e.target.value) * 60000,
+                                })
+                              }
+                            >
+                              {withCurrentOption(
+                                TIME_LIMIT_OPTIONS,
+                                lobbySettings.timeLimit / 60000
+                              ).map((option) => (
+                                <option key={option} value={option}>
+                                  {option === 0 ? "None" : `${option} min`}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center space-x-2">
+                            <span>Ready check</span>
+                            <select
+                              className="px-2 py-1 rounded-md bg-gray-900 text-white border border-gray-600"
+                              value={lobbySettings.readyCheckTimeout / 1000}
+                              onChange={(e) =>
+                                handleChangeSetting({
+                                  readyCheckTimeout:
+                                    Number(e.target.value) * 1000,
+                                })
+                              }
+                            >
+                              {withCurrentOption(
+                                READY_CHECK_OPTIONS,
+                                lobbySettings.readyCheckTimeout / 1000
+                              ).map((option) => (
+                                <option key={option} value={option}>
+                                  {option === 0 ? "Off" : `${option} s`}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center space-x-2">
+                            <span>Bots</span>
+                            <select
+                              className="px-2 py-1 rounded-md bg-gray-900 text-white border border-gray-600"
+                              value={lobbySettings.botDifficulty}
+                              onChange={(e) =>
+                                handleChangeSetting({
+                                  botDifficulty: e.target
+                                    .value as LobbySettings["botDifficulty"],
+                                })
+                              }
+                            >
+                              {BOT_DIFFICULTY_OPTIONS.map((option) => (
+                                <option key={option} value={option}>
+                                  {option === "off"
+                                    ? "Off"
+                                    : `${option[0].toUpperCase()}${option.slice(
+                                        1
+                                      )}`}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center space-x-2">
+                            <span>Map</span>
+                            <select
+                              className="px-2 py-1 rounded-md bg-gray-900 text-white border border-gray-600 capitalize"
+                              value={lobbySettings.map}
+                              onChange={(e) =>
+                                handleChangeSetting({
+                                  map: e.target.value as LobbySettings["map"],
+                                })
+                              }
+                            >
+                              {MAP_OPTIONS.map((option) => (
+                                <option key={option} value={option}>
+                                  {option}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label
+                            className="flex items-center space-x-2"
+                            title="Always on while matches are free-for-all"
+                          >
+                            <span>Friendly fire</span>
+                            <input
+                              type="checkbox"
+                              checked={lobbySettings.friendlyFire}
+                              disabled
+                              readOnly
+                            />
+                          </label>
+                          <button
+                            className={`px-3 py-1 rounded-md text-white ${
+                              lobbyLocked
+                                ? "bg-yellow-700 hover:bg-yellow-600"
+                                : "bg-gray-700 hover:bg-gray-600"
+                            }`}
+                            onClick={handleToggleLocked}
+                          >
+                            {lobbyLocked ? "Unlock lobby" : "Lock lobby"}
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="text-gray-400 text-sm">
+                          Up to {lobbySettings.maxPlayers} players ·{" "}
+                          {lobbySettings.killLimit > 0
+                            ? `First to ${lobbySettings.killLimit} kills`
+                            : "No kill limit"}{" "}
+                          ·{" "}
+                          {lobbySettings.timeLimit > 0
+                            ? `${Math.round(
+                                lobbySettings.timeLimit / 60000
+                              )} min`
+                            : "No time limit"}
+                          {lobbySettings.readyCheckTimeout > 0 &&
+                            ` · ${
+                              lobbySettings.readyCheckTimeout / 1000
+                            }s ready check`}
+                          {lobbySettings.botDifficulty === "off"
+                            ? " · No bots"
+                            : ` · ${lobbySettings.botDifficulty} bots`}
+                          {` · ${lobbySettings.map} map`}
+                          {lobbySettings.friendlyFire && " · Friendly fire"}
+                          {lobbyLocked && " · Locked"}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Private lobbies */}
+                  <div className="mt-6 pt-4 border-t border-gray-700 w-full flex flex-col items-center">
+                    {lobbyCode ? (
+                      <div className="flex items-center space-x-3">
+                        <span className="text-gray-300">
+                          Private lobby code:{" "}
+                          <span className="text-green-400 font-mono font-bold">
+                            {lobbyCode}
+                          </span>
+                        </span>
+                        <button
+                          className="px-3 py-1 rounded-md bg-gray-700 text-white text-sm hover:bg-gray-600"
+                          onClick={handleCopyInviteLink}
+                        >
+                          {linkCopied ? "Copied!" : "Copy invite link"}
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center space-x-3">
+                        <button
+                          className="px-3 py-2 rounded-md bg-gray-700 text-white text-sm hover:bg-gray-600"
+                          onClick={handleCreatePrivateLobby}
+                        >
+                          Create private lobby
+                        </button>
+                        <input
+                          className="px-3 py-2 rounded-md bg-gray-900 text-white text-sm font-mono uppercase w-28 border border-gray-600"
+                          placeholder="CODE"
+                          maxLength={16}
+                          value={inviteCode}
+                          onChange={(e) => setInviteCode(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleJoinPrivateLobby();
+                          }}
+                        />
+                        <button
+                          className="px-3 py-2 rounded-md bg-green-700 text-white text-sm hover:bg-green-600"
+                          onClick={handleJoinPrivateLobby}
+                        >
+                          Join
+                        </button>
+                        <button
+                          className="px-3 py-2 rounded-md bg-gray-700 text-white text-sm hover:bg-gray-600"
+                          onClick={handleWatchPrivateMatch}
+                        >
+                          Watch
+                        </button>
+                      </div>
+                    )}
+                    {lobbyError && (
+                      <p className="text-red-400 text-sm mt-2">{lobbyError}</p>
+                    )}
+                  </div>
+
+                  {/* Party */}
+                  <div className="mt-4 pt-4 border-t border-gray-700 w-full flex flex-col items-center">
+                    {partyInvite && partyInvite.code !== party?.code && (
+                      <div className="mb-3 flex items-center space-x-3 text-sm text-gray-300">
+                        <span>
+                          {partyInvite.from.slice(0, 6)}...
+                          {partyInvite.from.slice(-4)} invited you to their
+                          party
+                        </span>
+                        <button
+                          className="px-3 py-1 rounded-md bg-green-700 text-white hover:bg-green-600"
+                          onClick={() => handleJoinParty(partyInvite.code)}
+                        >
+                          Accept
+                        </button>
+                        <button
+                          className="px-3 py-1 rounded-md bg-gray-700 text-white hover:bg-gray-600"
+                          onClick={() => setPartyInvite(null)}
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    )}
+                    {party ? (
+                      <>
+                        <div className="flex items-center space-x-3 text-sm">
+                          <span className="text-gray-300">
+                            Party code:{" "}
+                            <span className="text-green-400 font-mono font-bold">
+                              {party.code}
+                            </span>
+                          </span>
+                          {isPartyLeader && (
+                            <button
+                              className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-500"
+                              onClick={handleQueueParty}
+                            >
+                              Queue together
+                            </button>
+                          )}
+                          <button
+                            className="px-3 py-1 rounded-md bg-gray-700 text-white hover:bg-gray-600"
+                            onClick={handleLeaveParty}
+                          >
+                            Leave party
+                          </button>
+                        </div>
+                        <div className="flex flex-wrap justify-center gap-2 mt-2 text-xs">
+                          {party.members.map((member) => (
+                            <span
+                              key={member.address}
+                              className={`px-2 py-1 rounded ${
+                                member.online
+                                  ? "bg-green-800/60 text-white"
+                                  : "bg-gray-700/60 text-gray-400"
+                              }`}
+                              title={member.online ? undefined : "Away"}
+                            >
+                              {member.address.slice(0, 6)}...
+                              {member.address.slice(-4)}
+                              {member.address === party.leader && " (leader)"}
+                            </span>
+                          ))}
+                        </div>
+                        {isPartyLeader &&
+                          party.members.length < MAX_PARTY_SIZE && (
+                            <div className="flex items-center space-x-3 mt-2">
+                              <input
+                                className="px-3 py-2 rounded-md bg-gray-900 text-white text-sm font-mono w-64 border border-gray-600"
+                                placeholder="Invite by wallet address (0x...)"
+                                maxLength={64}
+                                value={partyInviteAddress}
+                                onChange={(e) =>
+                                  setPartyInviteAddress(e.target.value)
+                                }
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") handleInviteToParty();
+                                }}
+                              />
+                              <button
+                                className="px-3 py-2 rounded-md bg-green-700 text-white text-sm hover:bg-green-600"
+                                onClick={handleInviteToParty}
+                              >
+                                Invite
+                              </button>
+                            </div>
+                          )}
+                      </>
+                    ) : (
+                      <div className="flex items-center space-x-3">
+                        <button
+                          className="px-3 py-2 rounded-md bg-gray-700 text-white text-sm hover:bg-gray-600"
+                          onClick={handleCreateParty}
+                        >
+                          Create party
+                        </button>
+                        <input
+                          className="px-3 py-2 rounded-md bg-gray-900 text-white text-sm font-mono uppercase w-28 border border-gray-600"
+                          placeholder="PARTY"
+                          maxLength={16}
+                          value={partyCode}
+                          onChange={(e) => setPartyCode(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleJoinParty(partyCode);
+                          }}
+                        />
+                        <button
+                          className="px-3 py-2 rounded-md bg-green-700 text-white text-sm hover:bg-green-600"
+                          onClick={() => handleJoinParty(partyCode)}
+                        >
+                          Join party
+                        </button>
+                      </div>
+                    )}
+                    {partyError && (
+                      <p className="text-red-400 text-sm mt-2">{partyError}</p>
+                    )}
+                  </div>
+
+                  {/* Matches being played, which anyone can watch */}
+                  {liveMatches.length > 0 && (
+                    <div className="mt-4 pt-4 border-t border-gray-700 w-full flex flex-col items-center">
+                      <h3 className="text-green-400 font-bold mb-2">
+                        Live matches
+                      </h3>
+                      <div className="w-full space-y-2 text-sm">
+                        {liveMatches.map((match) => (
+                          <div
+                            key={match.lobbyId}
+                            className="flex items-center justify-between p-2 rounded-md bg-gray-700/50"
+                          >
+                            <span className="text-gray-300">
+                              {match.players
+                                .map(
+                                  (player) =>
+                                    `${
+                                      player.bot
+                                        ? player.address
+                                        : `${player.address.slice(0, 6)}...`
+                                    } (${player.kills})`
+                                )
+                                .join(" · ")}
+                            </span>
+                            <span className="flex items-center space-x-3">
+                              <span className="text-gray-400">
+                                {match.phase}
+                                {match.timeLeft !== null &&
+                                  ` · ${Math.ceil(match.timeLeft / 60000)} min`}
+                                {match.spectators > 0 &&
+                                  ` · ${match.spectators} watching`}
+                              </span>
+                              <button
+                                className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-500"
+                                onClick={() => handleWatchMatch(match.lobbyId)}
+                              >
+                                Watch
+                              </button>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </>
               )}
             </div>
@@ -446,6 +1137,23 @@ export default function MatchingPage() {
         )}
       </div>
 
+      {/* Lobby chat */}
+      {hasJoined && (
+        <div className="absolute bottom-6 right-6 w-80 z-40">
+          <div className="bg-gray-800/80 backdrop-blur-sm rounded-lg p-3">
+            <h3 className="text-green-400 font-bold mb-2">Lobby Chat</h3>
+            <ChatPanel
+              className="h-56 justify-end"
+              messages={chatMessages}
+              address={address}
+              mutedAddresses={mutedAddresses}
+              onToggleMute={handleToggleMute}
+              onSend={handleSendChat}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Back button */}
       <div className="absolute bottom-6 left-6">
         <motion.button
@@ -470,3 +1178,18 @@ export default function MatchingPage() {
     </div>
   );
 }
+
+// Ask the game server which public matches can be watched right now
+async function fetchLiveMatches(): Promise<LiveMatchSummary[]> {
+  const serverUrl =
+    process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:4000";
+
+  try {
+    const response = await fetch(`${serverUrl}/api/matches`);
+    const data: { matches: LiveMatchSummary[] } = await response.json();
+    return data.matches;
+  } catch (err) {
+    console.error("Error fetching live matches:", err);
+    return [];
+  }
+}
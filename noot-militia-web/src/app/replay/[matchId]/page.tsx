@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import ReplayViewer from "@/components/ReplayViewer";
+import { REPLAY_VERSION } from "@/utils/replayPlayback";
+import type { MatchRecording } from "@/shared/protocol";
+
+function ReplayPage() {
+  const router = useRouter();
+  const { matchId } = useParams<{ matchId: string }>();
+
+  const [recording, setRecording] = useState<MatchRecording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRecording(matchId).then((result) => {
+      if (!result) {
+        setError("This replay doesn't exist or couldn't be loaded.");
+      } else if (result.version !== REPLAY_VERSION) {
+        setError("This replay was recorded by another version of the game.");
+      } else {
+        setRecording(result);
+      }
+    });
+  }, [matchId]);
+
+  if (error) {
+    return (
+      <div className="h-screen w-full bg-gray-900 flex flex-col items-center justify-center">
+        <div className="bg-red-900/60 p-6 rounded-lg max-w-md text-center">
+          <h2 className="text-2xl font-bold text-white mb-4">Error</h2>
+          <p className="text-white mb-6">{error}</p>
+          <button
+            className="px-4 py-2 bg-red-700 text-white rounded-md hover:bg-red-600"
+            onClick={() => router.push("/")}
+          >
+            Return to Main Menu
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!recording) {
+    return (
+      <div className="h-screen w-full bg-gray-900 flex flex-col items-center justify-center">
+        <motion.div
+          className="w-16 h-16 border-4 border-green-500 border-t-transparent rounded-full mb-6"
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+        />
+        <h2 className="text-3xl font-bold text-green-500 mb-2">
+          Loading Replay
+        </h2>
+      </div>
+    );
+  }
+
+  return <ReplayViewer recording={recording} />;
+}
+
+// Download the recording of a match from the game server. Returns null if
+// there is none.
+async function fetchRecording(matchId: string): Promise<MatchRecording | null> {
+  const serverUrl =
+    process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:4000";
+
+  try {
+    const response = await fetch(
+      `${serverUrl}/api/replays/${encodeURIComponent(matchId)}`
+    );
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (err) {
+    console.error("Error fetching replay:", err);
+    return null;
+  }
+}
+
+export default ReplayPage;
@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { ChatMessagePayload, MatchChatChannel } from "@/shared/protocol";
+
+const MAX_CHAT_LENGTH = 200; // The server drops longer messages
+
+const CHANNEL_LABELS: Record<ChatMessagePayload["channel"], string | null> = {
+  lobby: null,
+  all: "All",
+};
+
+interface ChatPanelProps {
+  messages: ChatMessagePayload[];
+  address?: string; // Our own wallet, which can't be muted
+  mutedAddresses: string[]; // Lowercase
+  onToggleMute: (address: string) => void;
+  onSend: (text: string) => void;
+  // In the game the chat is an overlay whose input only shows while open.
+  // Enter sends and closes it, Escape closes it.
+  overlay?: boolean;
+  inputOpen?: boolean;
+  channel?: MatchChatChannel;
+  onClose?: () => void;
+  className?: string;
+}
+
+// Chat messages with an input line. Clicking a sender mutes or unmutes them.
+export default function ChatPanel({
+  messages,
+  address,
+  mutedAddresses,
+  onToggleMute,
+  onSend,
+  overlay = false,
+  inputOpen = true,
+  channel,
+  onClose,
+  className = "",
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  // Focus the overlay input when it opens
+  useEffect(() => {
+    if (overlay && inputOpen) {
+      inputRef.current?.focus();
+    }
+  }, [overlay, inputOpen]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keys typed into chat must not reach the game's key bindings
+    e.stopPropagation();
+
+    if (e.key === "Enter") {
+      const text = draft.trim();
+      if (text) onSend(text);
+      setDraft("");
+      if (overlay) onClose?.();
+    } else if (e.key === "Escape" && overlay) {
+      setDraft("");
+      onClose?.();
+    }
+  };
+
+  return (
+    <div className={`flex flex-col ${className}`}>
+      <div
+        ref={listRef}
+        className={`flex-1 min-h-0 overflow-y-auto text-sm space-y-1 ${
+          overlay && !inputOpen ? "pointer-events-none" : ""
+        }`}
+      >
+        {messages.map((message, index) => {
+          const isMuted = mutedAddresses.includes(
+            message.address.toLowerCase()
+          );
+          const isOwn =
+            message.address.toLowerCase() === address?.toLowerCase();
+          const label = CHANNEL_LABELS[message.channel];
+
+          return (
+            <p key={`${message.time}-${index}`} className="break-words">
+              {label && <span className="text-gray-400">[{label}] </span>}
+              <button
+                className={`font-bold ${
+                  isOwn ? "text-yellow-300" : "text-green-400 hover:underline"
+                }`}
+                title={
+                  isOwn
+                    ? undefined
+                    : isMuted
+                    ? "Click to unmute"
+                    : "Click to mute"
+                }
+                onClick={
+                  isOwn ? undefined : () => onToggleMute(message.address)
+                }
+              >
+                {message.address.slice(0, 6)}...{message.address.slice(-4)}
+              </button>
+              <span className={isMuted ? "text-gray-500 italic" : "text-white"}>
+                : {isMuted ? "(muted)" : message.text}
+              </span>
+            </p>
+          );
+        })}
+      </div>
+
+      {inputOpen && (
+        <div className="flex items-center mt-2">
+          {channel && (
+            <span className="mr-2 text-sm font-bold text-gray-300">
+              [{CHANNEL_LABELS[channel]}]
+            </span>
+          )}
+          <input
+            ref={inputRef}
+            className="flex-1 px-3 py-2 rounded-md bg-gray-900/90 text-white text-sm border border-gray-600"
+            placeholder={
+              overlay ? "Enter to send, Esc to cancel" : "Say something..."
+            }
+            maxLength={MAX_CHAT_LENGTH}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
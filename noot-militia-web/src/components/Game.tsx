@@ -1,29 +1,109 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import * as PhaserNamespace from "phaser";
 const Phaser = PhaserNamespace;
-import io from "socket.io-client";
+import io, { Socket } from "socket.io-client";
 import { useRouter } from "next/navigation";
 import { usePrivy } from "@privy-io/react-auth";
-
-function safeGetData(object: any, key: string, defaultValue: any = null) {
-  if (!object || !object.getData) return defaultValue;
-  try {
-    const value = object.getData(key);
-    return value !== undefined ? value : defaultValue;
-  } catch (e) {
-    console.error(`Error getting data ${key}:`, e);
-    return defaultValue;
-  }
+import { useAccount } from "wagmi";
+import PredictionBuffer from "@/utils/prediction";
+import { getMutedAddresses, setAddressMuted } from "@/utils/chatMutes";
+import ChatPanel from "@/components/ChatPanel";
+import SnapshotBuffer, {
+  ServerClock,
+  SnapshotHistory,
+} from "@/utils/snapshotBuffer";
+import {
+  KILLCAM_LENGTH,
+  KILLCAM_SCENE,
+  KillcamScene,
+  type KillcamData,
+} from "@/utils/killcam";
+import {
+  createNootAnimations,
+  createWorldTextures,
+} from "@/utils/gameTextures";
+import {
+  createSnapshotDecoder,
+  type DecodedSnapshot,
+} from "@/shared/snapshotCodec";
+import {
+  FIRE_INTERVAL_TICKS,
+  GROUND_HEIGHT,
+  GROUND_TILE_SIZE,
+  INTERPOLATION_DELAY,
+  PLATFORM_LAYOUT,
+  ROCK_LAYOUT,
+  SPAWN_POINTS,
+  TICK_RATE,
+  WORLD_HEIGHT,
+  WORLD_WIDTH,
+  createBullet,
+  createPhysicsState,
+  stepPlayer,
+  type SimulatedPlayer,
+} from "@/shared/simulation";
+import type {
+  ChatMessagePayload,
+  ClientToServerEvents,
+  MatchEndedPayload,
+  MatchPhase,
+  MatchPlayer,
+  PlayerSnapshot,
+  ServerToClientEvents,
+  WorldSnapshot,
+} from "@/shared/protocol";
+
+// Seconds the results screen is shown before going back to the lobby
+const RESULTS_SCREEN_DURATION = 15;
+
+const MAX_CHAT_MESSAGES = 50; // Older match chat messages are dropped
+const SPECTATOR_CAMERA_SPEED = 600; // Pixels per second the free camera pans
+
+const MATCH_END_REASONS: Record<MatchEndedPayload["reason"], string> = {
+  "kill-limit": "Kill limit reached",
+  "time-limit": "Time is up",
+  overtime: "Decided in overtime",
+};
+
+// Short form of a wallet address, as shown in the lobby. Bots go by their
+// names, which are shown as they are.
+function shortenAddress(address: string) {
+  if (!address.startsWith("0x")) return address;
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
 export default function Game({ gameData }: { gameData: any }) {
   const gameRef = useRef<HTMLDivElement>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [matchResults, setMatchResults] = useState<MatchEndedPayload | null>(
+    null
+  );
+  const [lobbyCountdown, setLobbyCountdown] = useState(RESULTS_SCREEN_DURATION);
+  const [chatMessages, setChatMessages] = useState<ChatMessagePayload[]>([]);
+  const [chatOpen, setChatOpen] = useState(false);
+  const [mutedAddresses, setMutedAddresses] = useState<string[]>([]);
+  const [afkSecondsLeft, setAfkSecondsLeft] = useState<number | null>(null);
+  const [spectating, setSpectating] = useState(!!gameData?.spectate);
+  // Player the spectator camera follows, null for the free camera
+  const [spectatedAddress, setSpectatedAddress] = useState<string | null>(null);
+
+  // Chat is sent from React, outside the Phaser scene that owns the socket
+  const socketRef = useRef<Socket<
+    ServerToClientEvents,
+    ClientToServerEvents
+  > | null>(null);
 
   const router = useRouter();
   const { authenticated } = usePrivy();
+  const { address } = useAccount();
+
+  // The Phaser scene is created once, so it reads match details through refs
+  const gameDataRef = useRef(gameData);
+  const addressRef = useRef(address);
+  gameDataRef.current = gameData;
+  addressRef.current = address;
 
   // Check if user is authenticated, if not redirect to home
   useEffect(() => {
@@ -42,6 +122,71 @@ export default function Game({ gameData }: { gameData: any }) {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [authenticated, router]);
 
+  // Open the chat overlay with Enter. While it is open the chat input keeps
+  // key presses to itself.
+  useEffect(() => {
+    setMutedAddresses(getMutedAddresses());
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Enter") {
+        setChatOpen(true);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const sendChatMessage = (text: string) => {
+    socketRef.current?.emit("match-chat", { text, channel: "all" });
+  };
+
+  const toggleMute = (playerAddress: string) => {
+    const muted = !mutedAddresses.includes(playerAddress.toLowerCase());
+    socketRef.current?.emit("mute-player", {
+      address: playerAddress,
+      muted,
+    });
+    setMutedAddresses(setAddressMuted(playerAddress, muted));
+  };
+
+  // Count down on the results screen, then head back to our lobby
+  useEffect(() => {
+    if (!matchResults) return;
+
+    const timer = setInterval(() => {
+      setLobbyCountdown((seconds) => seconds - 1);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [matchResults]);
+
+  // Count down to the idle kick while the warning is up
+  useEffect(() => {
+    if (afkSecondsLeft === null || afkSecondsLeft <= 0) return;
+
+    const timer = setTimeout(() => {
+      setAfkSecondsLeft((seconds) => (seconds === null ? null : seconds - 1));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [afkSecondsLeft]);
+
+  // Spectators of a private match go to its lobby by invite code
+  const returnToLobby = useCallback(() => {
+    const lobbyId = gameDataRef.current?.lobbyId;
+    const code = gameDataRef.current?.spectate?.code;
+    if (code) {
+      router.push(`/matching?code=${encodeURIComponent(code)}`);
+    } else {
+      router.push(lobbyId ? `/matching?lobby=${lobbyId}` : "/matching");
+    }
+  }, [router]);
+
+  useEffect(() => {
+    if (matchResults && lobbyCountdown <= 0) {
+      returnToLobby();
+    }
+  }, [matchResults, lobbyCountdown, returnToLobby]);
+
   useEffect(() => {
     if (gameData && gameData.players) {
       console.log("Game initialized with player data:", gameData);
@@ -60,19 +205,57 @@ export default function Game({ gameData }: { gameData: any }) {
     let cursors: Phaser.Types.Input.Keyboard.CursorKeys;
     let spaceKey: Phaser.Input.Keyboard.Key;
     let game: Phaser.Game;
-    let lastFired = 0; // Timestamp of last bullet fired
+    let fireCooldown = 0; // Input commands until the next shot is allowed
     // Add this with your other variables
     let bulletOwners = new Map(); // Map to track bullet owners separately from Phaser's data system
     let rocks: Phaser.Physics.Arcade.StaticGroup;
     let killCount = 0;
     let killCountText: Phaser.GameObjects.Text;
 
+    // Match phase and when it ends on our clock, null without a time limit
+    let matchPhase: MatchPhase = "warmup";
+    let phaseEndsAt: number | null = null;
+    let matchTimerText: Phaser.GameObjects.Text;
+
+    // Spectators watch without a player of their own. The camera follows
+    // one player at a time or pans freely.
+    let spectating = !!gameDataRef.current?.spectate;
+    let spectatedId: string | null = null;
+    let freeCamera = false;
+    let freeCameraKey: Phaser.Input.Keyboard.Key | undefined;
+
     // Multiplayer variables
-    let socket: any;
+    let socket: Socket<ServerToClientEvents, ClientToServerEvents>;
     let otherPlayers: Map<string, Phaser.Physics.Arcade.Sprite>;
-    let prevX: number;
-    let prevY: number;
-    let prevFlipX: boolean;
+    let lastInputSentAt = 0; // Time the last input command was due
+
+    // Client-side prediction for the local player
+    const prediction = new PredictionBuffer();
+    const pendingCorrection = { x: 0, y: 0 }; // Drawing offset still to blend out
+
+    // Our own player is moved by the shared simulation, one step per input
+    // command, and drawn between its last two positions
+    const localPlayer: SimulatedPlayer = {
+      x: 0,
+      y: 0,
+      flipX: false,
+      animation: "noot_idle",
+      physics: createPhysicsState(),
+    };
+    const localPlayerFrom = { x: 0, y: 0 }; // Position before the last step
+
+    // Interpolation of remote players between server snapshots
+    const remoteBuffers = new Map<string, SnapshotBuffer>();
+    const serverClock = new ServerClock();
+
+    // Recent snapshots, replayed by the killcam when we die
+    const snapshotHistory = new SnapshotHistory<WorldSnapshot>(
+      KILLCAM_LENGTH + 1000
+    );
+
+    // Binary snapshots refer to players by roster slot
+    const snapshotDecoder = createSnapshotDecoder();
+    const playerSlots = new Map<number, string>(); // Map of slots to player IDs
 
     // Player health system
     let playerHealth = 10; // Player starts with 10 health
@@ -91,16 +274,17 @@ export default function Game({ gameData }: { gameData: any }) {
     let showLeaderboard = false;
     let leaderboardKey: Phaser.Input.Keyboard.Key;
 
-    // Game world configuration
-    const WORLD_WIDTH = 3200; // Much wider world
-    const WORLD_HEIGHT = 800; // Taller world
-    const GROUND_HEIGHT = 64;
+    // Input commands are sent at the match server's tick rate, and the
+    // server allows one shot every FIRE_INTERVAL_TICKS commands
+    const INPUT_SEND_INTERVAL = 1000 / TICK_RATE;
+
+    // Server corrections are blended in over this many milliseconds, unless
+    // they are large enough that the player should just be snapped
+    const CORRECTION_SMOOTHING_TIME = 100;
+    const CORRECTION_SNAP_DISTANCE = 150;
 
-    // Spawn points for multiplayer
-    const SPAWN_POINTS = [
-      { x: 200, y: WORLD_HEIGHT - GROUND_HEIGHT - 50 }, // Left side spawn
-      { x: WORLD_WIDTH - 200, y: WORLD_HEIGHT - GROUND_HEIGHT - 50 }, // Right side spawn
-    ];
+    // Remote bullets further than this from the server's position get snapped
+    const BULLET_CORRECTION = 16;
 
     // Handle responsive canvas sizing
     const updateDimensions = () => {
@@ -116,94 +300,37 @@ export default function Game({ gameData }: { gameData: any }) {
       if (!platforms) return;
 
       // Calculate how many ground tiles we need based on the world width
-      const tilesNeeded = Math.ceil(WORLD_WIDTH / 64) + 4;
+      const tilesNeeded = Math.ceil(WORLD_WIDTH / GROUND_TILE_SIZE) + 4;
 
       // Create the ground as a series of tiles at the bottom of the world
       for (let i = 0; i < tilesNeeded; i++) {
         platforms
-          .create(i * 64, WORLD_HEIGHT, "ground")
+          .create(i * GROUND_TILE_SIZE, WORLD_HEIGHT, "ground")
           .setOrigin(0, 1)
           .refreshBody(); // Set origin to bottom-left for proper alignment
       }
 
-      // Add some platforms throughout the world for more interesting gameplay
-      // Left side platforms - reduced height by 30
-      // Left side platforms - reduced height by 30
-      platforms
-        .create(300, WORLD_HEIGHT - 150, "ground") // Was 120, now 150 (30 higher)
-        .setScale(3, 0.5)
-        .refreshBody();
-      platforms
-        .create(500, WORLD_HEIGHT - 280, "ground") // Was 200, now 230 (30 higher)
-        .setScale(2, 0.5)
-        .refreshBody();
-
-      // Middle platforms - reduced height by 30
-      platforms
-        .create(WORLD_WIDTH / 2 - 150, WORLD_HEIGHT - 150, "ground") // Was 120, now 150 (30 higher)
-        .setScale(4, 0.5)
-        .refreshBody();
-      platforms
-        .create(WORLD_WIDTH / 2 + 80, WORLD_HEIGHT - 280, "ground") // Was 200, now 230 (30 higher)
-        .setScale(3, 0.5)
-        .refreshBody();
-
-      // Right side platforms - reduced height by 30
-      platforms
-        .create(WORLD_WIDTH - 300, WORLD_HEIGHT - 150, "ground") // Was 120, now 150 (30 higher)
-        .setScale(3, 0.5)
-        .refreshBody();
-      platforms
-        .create(WORLD_WIDTH - 500, WORLD_HEIGHT - 280, "ground") // Was 200, now 230 (30 higher)
-        .setScale(2, 0.5)
-        .refreshBody();
+      // Add the platforms from the shared world layout
+      PLATFORM_LAYOUT.forEach((platform) => {
+        platforms
+          .create(platform.x, platform.y, "ground")
+          .setScale(platform.scaleX, 0.5)
+          .refreshBody();
+      });
 
       // Add rocks on platforms for cover
       createRocks(scene);
     }
 
     function setupRockCollisions(scene: Phaser.Scene) {
-      if (!rocks || !player) {
-        console.log("Cannot setup rock collisions - missing rocks or player");
+      if (!rocks) {
+        console.log("Cannot setup rock collisions - missing rocks");
         return;
       }
 
-      // Remove any existing colliders between player and rocks to prevent duplicates
-      scene.physics.world.colliders
-        .getActive()
-        .filter(
-          (collider) =>
-            (collider.object1 === player && collider.object2 === rocks) ||
-            (collider.object1 === rocks && collider.object2 === player)
-        )
-        .forEach((collider) => collider.destroy());
-
-      console.log("Setting up rock collisions with player");
-
-      // Create a custom collision handler that checks if the player is jumping
-      scene.physics.add.collider(player, rocks, (playerObj, rockObj) => {
-        // Skip collision processing if player is invulnerable
-        if (invulnerable) {
-          return false;
-        }
-
-        const player = playerObj as Phaser.Physics.Arcade.Sprite;
-
-        // If player is coming from above the rock (jumping/falling onto it)
-        if (player.body.velocity.y >= 0 && player.body.touching.down) {
-          return true; // Allow landing on top of rocks
-        }
-
-        // If player is jumping upward, let them pass through the bottom of rocks
-        if (player.body.velocity.y < -100 && player.body.touching.up) {
-          return false; // Let them pass through from below
-        }
-
-        // In all other cases (horizontal collision), block the player
-        return true;
-      });
-
-      // Similar collision handling for other players
+      // Our own player is moved by the shared simulation, which handles
+      // rocks itself. Other players still get a collider.
+      // Collision handling for other players
       if (otherPlayers && otherPlayers.size > 0) {
         // First remove any existing colliders
         otherPlayers.forEach((otherPlayer) => {
@@ -246,29 +373,13 @@ export default function Game({ gameData }: { gameData: any }) {
         rocks = scene.physics.add.staticGroup();
       }
 
-      // Add rocks on left platforms
-      createRock(scene, 250, WORLD_HEIGHT - 180, 1.2); // Was 150, now 180 (30 higher)
-      createRock(scene, 350, WORLD_HEIGHT - 180, 1); // Was 150, now 180 (30 higher)
-      createRock(scene, 500, WORLD_HEIGHT - 310, 1.3); // Was 230, now 260 (30 higher)
-
-      // Add rocks on middle platforms
-      createRock(scene, WORLD_WIDTH / 2 - 200, WORLD_HEIGHT - 180, 1.4); // Was 150, now 180 (30 higher)
-      createRock(scene, WORLD_WIDTH / 2 - 50, WORLD_HEIGHT - 180, 1); // Was 150, now 180 (30 higher)
-      createRock(scene, WORLD_WIDTH / 2 + 30, WORLD_HEIGHT - 310, 1.2); // Was 230, now 260 (30 higher)
-      createRock(scene, WORLD_WIDTH / 2 + 100, WORLD_HEIGHT - 310, 1); // Was 230, now 260 (30 higher)
-
-      // Add rocks on right platforms
-      createRock(scene, WORLD_WIDTH - 350, WORLD_HEIGHT - 180, 1.1); // Was 150, now 180 (30 higher)
-      createRock(scene, WORLD_WIDTH - 250, WORLD_HEIGHT - 180, 1.3); // Was 150, now 180 (30 higher)
-      createRock(scene, WORLD_WIDTH - 480, WORLD_HEIGHT - 310, 1.2); // Was 230, now 260 (30 higher)
+      // Add the rocks from the shared world layout
+      ROCK_LAYOUT.forEach((rock) =>
+        createRock(scene, rock.x, rock.y, rock.scale)
+      );
 
       setupRockCollisions(scene);
 
-      // Also add collision between player and rocks
-      if (player) {
-        scene.physics.add.collider(player, rocks);
-      }
-
       // Add collision between other players and rocks
       if (otherPlayers) {
         otherPlayers.forEach((otherPlayer) => {
@@ -415,11 +526,6 @@ export default function Game({ gameData }: { gameData: any }) {
             yoyo: true,
           });
 
-          // Enable physics collision between player and platforms
-          if (platforms) {
-            scene.physics.add.collider(player, platforms);
-          }
-
           createRocks(scene);
 
           // Make camera follow the player
@@ -427,11 +533,6 @@ export default function Game({ gameData }: { gameData: any }) {
           scene.cameras.main.startFollow(player, true, 0.08, 0.08);
           scene.cameras.main.setZoom(1); // Adjust zoom level as needed
 
-          // Store initial position for movement detection
-          prevX = player.x;
-          prevY = player.y;
-          prevFlipX = player.flipX;
-
           // Initialize socket connection if not already done
           // We do this after player is created to ensure everything is ready
           if (!socket) {
@@ -478,6 +579,8 @@ export default function Game({ gameData }: { gameData: any }) {
         });
       }
 
+      placeLocalPlayer(spawnPoint.x, spawnPoint.y);
+
       // Reset respawn cooldown
       respawnCooldown = false;
     }
@@ -488,15 +591,136 @@ export default function Game({ gameData }: { gameData: any }) {
       otherPlayers = new Map();
 
       // Connect to the server
-      socket = io("http://localhost:4000"); // Replace with your server URL if different
+      const serverUrl =
+        process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:4000";
+      socket = io(serverUrl);
+      socketRef.current = socket;
+
+      // Join the match for the lobby we were matched into. socket.io
+      // reconnects on its own after a dropped connection, and the session
+      // token lets the server hand our player back to us.
+      socket.on("connect", () => {
+        const lobbyId = gameDataRef.current?.lobbyId;
+        const sessionToken = gameDataRef.current?.sessionToken;
+        const address = addressRef.current;
+        if (!spectating && (!lobbyId || !sessionToken || !address)) {
+          setMultiplayerStatus(scene, "Multiplayer: No match to join");
+          return;
+        }
+
+        // Baselines from the previous connection mean nothing to the server
+        snapshotDecoder.reset();
+        if (spectating) {
+          // A player moved to the spectators watches on with their token
+          socket.emit(
+            "spectate-match",
+            gameDataRef.current?.spectate || { lobbyId, sessionToken }
+          );
+        } else if (lobbyId && sessionToken && address) {
+          socket.emit("join-match", { lobbyId, address, sessionToken });
+        }
+
+        // The server mutes per socket, so tell it who we muted
+        getMutedAddresses().forEach((mutedAddress) => {
+          socket.emit("mute-player", { address: mutedAddress, muted: true });
+        });
+      });
+
+      // Handle a chat message from another player
+      socket.on("chat-message", (message) => {
+        setChatMessages((messages) =>
+          [...messages, message].slice(-MAX_CHAT_MESSAGES)
+        );
+      });
+
+      socket.on("disconnect", (reason) => {
+        // socket.io doesn't reconnect when the server closed the connection
+        if (reason === "io server disconnect") return;
+        setMultiplayerStatus(scene, "Multiplayer: Reconnecting...");
+      });
+
+      // Handle being removed from the match by the server
+      socket.on("kicked", (data) => {
+        console.warn("Kicked from match:", data.reason);
+        setMultiplayerStatus(scene, `Multiplayer: Kicked (${data.reason})`);
+        setAfkSecondsLeft(null);
+      });
+
+      // Handle the server warning us that we've been idle, or that we're
+      // active again
+      socket.on("afk-warning", (data) => {
+        setAfkSecondsLeft(
+          data.timeLeft === null ? null : Math.ceil(data.timeLeft / 1000)
+        );
+      });
+
+      // Handle the server letting us watch, or moving us to the spectators
+      socket.on("spectating", (data) => {
+        setAfkSecondsLeft(null);
+        if (data.reason) {
+          showMatchAnnouncement(scene, `Spectating: ${data.reason}`);
+        }
+        if (!spectating) startSpectating(scene);
+      });
+
+      // Handle the match moving on to its next phase
+      socket.on("match-phase", (data) => {
+        const previousPhase = matchPhase;
+        matchPhase = data.phase;
+        phaseEndsAt =
+          data.timeLeft === null ? null : Date.now() + data.timeLeft;
+
+        if (data.phase === previousPhase) return;
+        if (data.phase === "live") {
+          showMatchAnnouncement(scene, "FIGHT!");
+        } else if (data.phase === "overtime") {
+          showMatchAnnouncement(scene, "OVERTIME - next kill wins!");
+        }
+      });
+
+      // Handle the end of the match - show everyone's results
+      socket.on("match-ended", (data) => {
+        matchPhase = "finished";
+        phaseEndsAt = null;
+        setMatchResults(data);
+      });
+
+      // Handle the server refusing to put us in the match
+      socket.on("match-join-failed", (data: { reason: string }) => {
+        console.warn("Could not join match:", data.reason);
+        setMultiplayerStatus(scene, `Multiplayer: ${data.reason}`);
+      });
 
       // Handle current players data
-      socket.on("currentPlayers", (players: any) => {
+      socket.on("currentPlayers", (players) => {
         // Only process if the scene is still active
         if (!scene.scene.isActive()) return;
 
+        setMultiplayerStatus(
+          scene,
+          `Multiplayer: ${spectating ? "Spectating" : "Connected"} (${
+            gameDataRef.current?.lobbyId || "private match"
+          })`
+        );
+
+        // After a reconnect, forget players who left while we were away
+        otherPlayers.forEach((_, id) => {
+          if (!players[id]) removeOtherPlayer(id);
+        });
+
+        Object.values(players).forEach((playerInfo) => {
+          playerSlots.set(playerInfo.slot, playerInfo.playerId);
+        });
+
         Object.keys(players).forEach((id) => {
           if (id === socket.id) {
+            // Pick up where the server has us, e.g. when resuming a match
+            if (player && !players[id].isDead) {
+              resetPrediction();
+              placeLocalPlayer(players[id].x, players[id].y);
+              localPlayer.flipX = players[id].flipX;
+            }
+
             // Handle our own player data - update health if server sent it
             if (
               players[id].health !== undefined &&
@@ -521,97 +745,36 @@ export default function Game({ gameData }: { gameData: any }) {
       });
 
       // Handle new player joining
-      socket.on("newPlayer", (playerInfo: any) => {
+      socket.on("newPlayer", (playerInfo) => {
         // Only process if the scene is still active
         if (!scene.scene.isActive()) return;
 
+        playerSlots.set(playerInfo.slot, playerInfo.playerId);
         addOtherPlayer(scene, playerInfo);
       });
 
-      // Handle player movement updates
-      socket.on("playerMoved", (playerInfo: any) => {
+      // Answer the server's round trip probe so it can lag compensate our shots
+      socket.on("latencyPing", (data) => {
+        socket.emit("latencyPong", { id: data.id });
+      });
+
+      // Handle the world snapshot the server broadcasts every tick
+      socket.on("snapshot", (snapshot) => {
         // Only process if the scene is still active
         if (!scene.scene.isActive()) return;
 
-        const otherPlayer = otherPlayers.get(playerInfo.playerId);
-        if (otherPlayer) {
-          // Get the current position
-          const currentY = playerInfo.y;
-
-          // Validate Y position - prevent player from going below ground
-          let validY = currentY;
-
-          // If position is below ground level, correct it
-          if (validY > WORLD_HEIGHT - GROUND_HEIGHT) {
-            validY = WORLD_HEIGHT - GROUND_HEIGHT - 0; // Keep slightly above ground
-            console.log(
-              `Correcting player ${playerInfo.playerId} Y position from ${currentY} to ${validY}`
-            );
-          }
-
-          // Update player position with validated coordinates
-          otherPlayer.setPosition(playerInfo.x, validY);
-          otherPlayer.setFlipX(playerInfo.flipX);
-
-          // If the player is on a platform, make sure they stay on it
-          // This handles the case where players should be on platforms at different heights
-          const platformCollider = scene.physics.world.colliders
-            .getActive()
-            .find(
-              (collider) =>
-                (collider.object1 === otherPlayer &&
-                  collider.object2 === platforms) ||
-                (collider.object1 === platforms &&
-                  collider.object2 === otherPlayer)
-            );
-
-          if (platformCollider) {
-            // Make sure physics properly updates to handle platform collisions
-            otherPlayer.body.updateFromGameObject();
-          }
-
-          // Update health if provided
-          if (playerInfo.health !== undefined) {
-            otherPlayer.setData("health", playerInfo.health);
-          }
+        applySnapshot(scene, snapshot);
+      });
 
-          // Update visibility based on death state
-          if (playerInfo.isDead !== undefined) {
-            otherPlayer.setVisible(!playerInfo.isDead);
-          }
+      // Binary delta snapshots, acknowledged so the server can diff against them
+      socket.on("snapshotData", (data) => {
+        if (!scene.scene.isActive()) return;
 
-          // Add physics colliders if they don't exist
-          // This ensures players always have proper physics interactions
-          if (
-            !scene.physics.world.colliders
-              .getActive()
-              .some(
-                (collider) =>
-                  (collider.object1 === otherPlayer &&
-                    collider.object2 === platforms) ||
-                  (collider.object1 === platforms &&
-                    collider.object2 === otherPlayer)
-              )
-          ) {
-            scene.physics.add.collider(otherPlayer, platforms);
-          }
+        const decoded = snapshotDecoder.decode(data);
+        if (!decoded) return;
 
-          // Make sure rock collisions are set up
-          if (
-            rocks &&
-            !scene.physics.world.colliders
-              .getActive()
-              .some(
-                (collider) =>
-                  (collider.object1 === otherPlayer &&
-                    collider.object2 === rocks) ||
-                  (collider.object1 === rocks &&
-                    collider.object2 === otherPlayer)
-              )
-          ) {
-            scene.physics.add.collider(otherPlayer, rocks);
-          }
-        }
+        socket.emit("snapshotAck", { tick: decoded.tick });
+        applySnapshot(scene, toWorldSnapshot(decoded));
       });
 
       // Handle player disconnection
@@ -619,22 +782,11 @@ export default function Game({ gameData }: { gameData: any }) {
         // Only process if the scene is still active
         if (!scene.scene.isActive()) return;
 
-        const otherPlayer = otherPlayers.get(playerId);
-        if (otherPlayer) {
-          // Destroy the player label if it exists
-          const playerLabel = otherPlayer.getData("label");
-          if (playerLabel) {
-            playerLabel.destroy();
-          }
-
-          // Destroy the player
-          otherPlayer.destroy();
-          otherPlayers.delete(playerId);
-        }
+        removeOtherPlayer(playerId);
       });
 
       // Handle bullets fired by other players
-      socket.on("bulletCreated", (bulletData: any) => {
+      socket.on("bulletCreated", (bulletData) => {
         console.log("CLIENT: Received bulletCreated event:", bulletData);
 
         // Only process if the scene is still active and bullets group exists
@@ -699,26 +851,6 @@ export default function Game({ gameData }: { gameData: any }) {
             );
           }
 
-          // Add collision with local player if not shot by us
-          if (player && ownerId !== socket.id) {
-            // Direct inline collision handler for THIS bullet with OUR player
-            scene.physics.add.overlap(
-              bullet,
-              player,
-              (bullet, player) => {
-                console.log(
-                  `Direct collision detected: Remote bullet hit local player`
-                );
-                bulletHitPlayer(
-                  bullet as Phaser.Physics.Arcade.Sprite,
-                  player as Phaser.Physics.Arcade.Sprite
-                );
-              },
-              null,
-              scene
-            );
-          }
-
           // Destroy bullet after timeout (2 seconds)
           scene.time.delayedCall(2000, () => {
             if (bullet && bullet.active) {
@@ -740,8 +872,48 @@ export default function Game({ gameData }: { gameData: any }) {
         }
       });
 
+      // Handle bullets stopped by the server (player hits, cover and timeouts)
+      socket.on(
+        "bulletDestroyed",
+        (data: { bulletId: string; x: number; y: number; reason: string }) => {
+          if (!scene.scene.isActive()) return;
+
+          // Show a hit effect where the server says the bullet hit a player
+          if (data.reason === "player") {
+            const hitEffect = scene.add.circle(
+              data.x,
+              data.y,
+              8,
+              0xffff00,
+              0.8
+            );
+            scene.tweens.add({
+              targets: hitEffect,
+              scale: 2,
+              alpha: 0,
+              duration: 300,
+              onComplete: () => hitEffect.destroy(),
+            });
+          }
+
+          const bulletInfo = allBullets.find(
+            (b) =>
+              b.bullet.active && b.bullet.getData("bulletId") === data.bulletId
+          );
+          if (!bulletInfo) return;
+
+          // Cleanup and destroy our copy of the bullet
+          const emitter = bulletInfo.bullet.getData("emitter");
+          if (emitter) {
+            emitter.destroy();
+          }
+          allBullets = allBullets.filter((b) => b !== bulletInfo);
+          bulletInfo.bullet.destroy();
+        }
+      );
+
       // Handle player damage events from server
-      socket.on("playerDamaged", (data: any) => {
+      socket.on("playerDamaged", (data) => {
         if (!scene.scene.isActive()) return;
 
         console.log(`SOCKET DEBUG: Received playerDamaged event:`, data);
@@ -857,16 +1029,8 @@ export default function Game({ gameData }: { gameData: any }) {
         }
       });
 
-      const originalEmit = socket.emit;
-      socket.emit = function (event: string, ...args: any[]) {
-        if (event === "bulletHitMe") {
-          console.log(`DEBUG: Sending bulletHitMe event:`, args[0]);
-        }
-        return originalEmit.apply(this, [event, ...args]);
-      };
-
       // Handle player death events - controlled by server
-      socket.on("playerDied", (data: any) => {
+      socket.on("playerDied", (data) => {
         if (!scene.scene.isActive()) return;
 
         if (data.playerId === socket.id) {
@@ -885,6 +1049,11 @@ export default function Game({ gameData }: { gameData: any }) {
               "CLIENT: Already in respawn cooldown, ignoring death notification"
             );
           }
+
+          // Show how we were killed until the server respawns us
+          if (data.killedBy) {
+            startKillcam(scene, data.killedBy, data.time);
+          }
         } else {
           // Another player died
           console.log(
@@ -912,25 +1081,29 @@ export default function Game({ gameData }: { gameData: any }) {
             // Make player invisible until respawned
             otherPlayer.setVisible(false);
 
-            // If we killed them, update kill count - redundant with playerKilled event but as backup
+            // If we killed them, update kill count until the next snapshot
             if (data.killedBy === socket.id) {
               killCount++;
               if (killCountText) {
                 killCountText.setText(`Kills: ${killCount}`);
               }
+              showKillNotification(scene);
             }
           }
         }
       });
 
       // Handle player respawn events - controlled by server
-      socket.on("playerRespawned", (data: any) => {
+      socket.on("playerRespawned", (data) => {
         if (!scene.scene.isActive()) return;
 
         if (data.playerId === socket.id) {
           // We respawned - server is instructing us to respawn
           console.log("CLIENT: Server notified us to respawn");
 
+          // The server moved us, so our predicted inputs no longer apply
+          resetPrediction();
+
           // Reset respawn cooldown and update health
           respawnCooldown = false;
           playerHealth = 10;
@@ -942,8 +1115,7 @@ export default function Game({ gameData }: { gameData: any }) {
             player.body.enable = true;
 
             // Move to the respawn position
-            player.setPosition(data.x, data.y);
-            player.setVelocity(0, 0);
+            placeLocalPlayer(data.x, data.y);
 
             // Update health display
             if (healthText) {
@@ -954,6 +1126,7 @@ export default function Game({ gameData }: { gameData: any }) {
             if (deathMessageText) {
               deathMessageText.setVisible(false);
             }
+            stopKillcam(scene);
 
             // Set invulnerability period after respawn
             invulnerable = true;
@@ -988,7 +1161,8 @@ export default function Game({ gameData }: { gameData: any }) {
             // Make player visible again
             otherPlayer.setVisible(true);
 
-            // Move to respawn position
+            // Move to respawn position without sliding across the map
+            remoteBuffers.get(data.playerId)?.clear();
             otherPlayer.setPosition(data.x, data.y);
             otherPlayer.setData("health", 10);
 
@@ -1010,102 +1184,88 @@ export default function Game({ gameData }: { gameData: any }) {
           }
         }
       });
+    }
 
-      socket.on("playerKilled", (data: any) => {
-        if (!scene.scene.isActive()) return;
-
-        console.log(`SERVER: Player killed event received:`, data);
-
-        // Update kill counts for the killer
-        if (data.killedBy) {
-          const currentKills = playerKills.get(data.killedBy) || 0;
-          playerKills.set(data.killedBy, currentKills + 1);
-
-          // If it's us, update our kill count
-          if (data.killedBy === socket.id) {
-            killCount++;
-
-            // Update kill counter text
-            if (killCountText) {
-              killCountText.setText(`Kills: ${killCount}`);
-            }
-
-            // Show a kill notification
-            const killText = scene.add
-              .text(scene.cameras.main.width / 2, 100, "You killed a player!", {
-                fontSize: "24px",
-                color: "#00ff00",
-                stroke: "#000",
-                strokeThickness: 4,
-              })
-              .setOrigin(0.5)
-              .setScrollFactor(0)
-              .setDepth(1000);
-
-            // Fade out after 2 seconds
-            scene.tweens.add({
-              targets: killText,
-              alpha: 0,
-              duration: 1000,
-              delay: 1000,
-              onComplete: () => killText.destroy(),
-            });
-          }
+    // Show a kill notification
+    function showKillNotification(scene: Phaser.Scene) {
+      const killText = scene.add
+        .text(scene.cameras.main.width / 2, 100, "You killed a player!", {
+          fontSize: "24px",
+          color: "#00ff00",
+          stroke: "#000",
+          strokeThickness: 4,
+        })
+        .setOrigin(0.5)
+        .setScrollFactor(0)
+        .setDepth(1000);
 
-          // Update leaderboard if it's visible
-          if (showLeaderboard) {
-            updateLeaderboard(scene);
-          }
-        }
+      // Fade out after 2 seconds
+      scene.tweens.add({
+        targets: killText,
+        alpha: 0,
+        duration: 1000,
+        delay: 1000,
+        onComplete: () => killText.destroy(),
       });
+    }
 
-      socket.on("allPlayerStats", (allStats: any) => {
-        if (!scene.scene.isActive()) return;
-
-        console.log("Received all player stats:", allStats);
-
-        // Clear existing stats
-        playerKills.clear();
-
-        // Update with server data
-        Object.entries(allStats).forEach(([id, stats]: [string, any]) => {
-          if (stats.kills !== undefined) {
-            playerKills.set(id, stats.kills);
-          }
-        });
-
-        // Update our kill count
-        if (socket && allStats[socket.id]?.kills !== undefined) {
-          killCount = allStats[socket.id].kills;
-          if (killCountText) {
-            killCountText.setText(`Kills: ${killCount}`);
-          }
-        }
+    // Announce a match phase in the middle of the screen
+    function showMatchAnnouncement(scene: Phaser.Scene, message: string) {
+      const announcement = scene.add
+        .text(scene.cameras.main.width / 2, 160, message, {
+          fontSize: "36px",
+          color: "#ffff00",
+          stroke: "#000",
+          strokeThickness: 5,
+        })
+        .setOrigin(0.5)
+        .setScrollFactor(0)
+        .setDepth(1000);
 
-        // Update leaderboard if visible
-        if (showLeaderboard) {
-          updateLeaderboard(scene);
-        }
+      scene.tweens.add({
+        targets: announcement,
+        alpha: 0,
+        duration: 1000,
+        delay: 1500,
+        onComplete: () => announcement.destroy(),
       });
+    }
 
-      // Add this to handle receiving current player stats when joining a game
-      socket.on("playerStats", (stats: any) => {
-        if (!scene.scene.isActive()) return;
+    // Show the match phase and the time left in it at the top of the HUD
+    function updateMatchTimer(scene: Phaser.Scene) {
+      if (!matchTimerText) return;
 
-        console.log("Received player stats from server:", stats);
+      let timeLeft = "";
+      if (phaseEndsAt !== null) {
+        const seconds = Math.max(
+          0,
+          Math.ceil((phaseEndsAt - Date.now()) / 1000)
+        );
+        timeLeft = ` ${Math.floor(seconds / 60)}:${String(
+          seconds % 60
+        ).padStart(2, "0")}`;
+      }
 
-        // Update kill count if provided by server
-        if (stats.kills !== undefined) {
-          killCount = stats.kills;
-          if (killCountText) {
-            killCountText.setText(`Kills: ${killCount}`);
-          }
-        }
-      });
+      const labels: Record<MatchPhase, string> = {
+        warmup: "WARMUP",
+        live: "",
+        overtime: "OVERTIME",
+        finished: "MATCH OVER",
+      };
+      matchTimerText.setText(`${labels[matchPhase]}${timeLeft}`.trim());
+      matchTimerText.setX(scene.cameras.main.width / 2);
+    }
+
+    // Update the multiplayer status line shown in the HUD
+    function setMultiplayerStatus(scene: Phaser.Scene, status: string) {
+      const statusText = scene.children.getByName(
+        "multiplayerStatus"
+      ) as Phaser.GameObjects.Text | null;
+      statusText?.setText(status);
     }
 
     // Function to add other players
-    function addOtherPlayer(scene: Phaser.Scene, playerInfo: any) {
+    function addOtherPlayer(scene: Phaser.Scene, playerInfo: MatchPlayer) {
       // Check if player already exists
       if (otherPlayers.has(playerInfo.playerId)) {
         console.log(`Player ${playerInfo.playerId} already exists`);
@@ -1171,8 +1331,13 @@ export default function Game({ gameData }: { gameData: any }) {
       otherPlayer.setBounce(0.1);
       otherPlayer.setCollideWorldBounds(true);
       otherPlayer.setData("playerId", playerInfo.playerId);
+      otherPlayer.setData("address", playerInfo.address);
+      otherPlayer.setData("bot", playerInfo.bot);
       otherPlayer.setData("health", initialHealth);
 
+      // Position comes from the interpolation buffer, not local gravity
+      otherPlayer.body.setAllowGravity(false);
+
       // Set up animations for other players if they exist
       if (scene.anims.exists("noot_idle")) {
         otherPlayer.anims.play("noot_idle");
@@ -1189,291 +1354,334 @@ export default function Game({ gameData }: { gameData: any }) {
 
       // Add this player to our map of other players
       otherPlayers.set(playerInfo.playerId, otherPlayer);
+    }
 
-      // IMPORTANT: Set up collisions for ALL existing bullets with this player
-      allBullets.forEach((bulletInfo) => {
-        if (
-          bulletInfo.bullet.active &&
-          bulletInfo.ownerId !== playerInfo.playerId
-        ) {
-          scene.physics.add.overlap(
-            bulletInfo.bullet,
-            otherPlayer,
-            (bullet, otherPlayer) => {
-              bulletHitPlayer(
-                bullet as Phaser.Physics.Arcade.Sprite,
-                otherPlayer as Phaser.Physics.Arcade.Sprite
-              );
-            },
-            null,
-            scene
-          );
+    // Function to remove other players
+    function removeOtherPlayer(playerId: string) {
+      const otherPlayer = otherPlayers.get(playerId);
+      if (otherPlayer) {
+        // Destroy the player label if it exists
+        const playerLabel = otherPlayer.getData("label");
+        if (playerLabel) {
+          playerLabel.destroy();
         }
+
+        // Destroy the player
+        otherPlayer.destroy();
+        otherPlayers.delete(playerId);
+      }
+      remoteBuffers.delete(playerId);
+      playerSlots.forEach((id, slot) => {
+        if (id === playerId) playerSlots.delete(slot);
       });
     }
 
-    function correctPlayerPositions(scene: Phaser.Scene) {
-      // Check and correct our own player if needed
-      if (player && player.active && player.y > WORLD_HEIGHT - GROUND_HEIGHT) {
-        console.log(`Correcting local player position - was below ground`);
-        player.setY(WORLD_HEIGHT - GROUND_HEIGHT - 10);
+    // Replay our unacknowledged inputs from the server's view of the local
+    // player and take the result as the new prediction
+    function reconcileLocalPlayer(serverState: PlayerSnapshot) {
+      if (!player || respawnCooldown || serverState.isDead) return;
+
+      const replayed = prediction.reconcile(
+        serverState.ack,
+        {
+          x: serverState.x,
+          y: serverState.y,
+          flipX: serverState.flipX,
+          animation: serverState.animation,
+          physics: {
+            velocityX: serverState.velocityX,
+            velocityY: serverState.velocityY,
+            onGround: serverState.onGround,
+          },
+        },
+        INPUT_SEND_INTERVAL / 1000
+      );
+      if (!replayed) return;
+
+      const correctionX = replayed.x - localPlayer.x;
+      const correctionY = replayed.y - localPlayer.y;
+      shiftLocalPlayer(correctionX, correctionY);
+      localPlayer.flipX = replayed.flipX;
+      localPlayer.animation = replayed.animation;
+      localPlayer.physics = replayed.physics;
+
+      const distance = Math.hypot(correctionX, correctionY);
+      if (distance > CORRECTION_SNAP_DISTANCE) {
+        // Too far off to hide - draw the corrected position straight away
+        pendingCorrection.x = 0;
+        pendingCorrection.y = 0;
+      } else if (distance > 0) {
+        // Keep drawing where we were and blend towards it over a few frames
+        pendingCorrection.x -= correctionX;
+        pendingCorrection.y -= correctionY;
       }
+    }
 
-      // Check and correct all other players
-      if (otherPlayers) {
-        otherPlayers.forEach((otherPlayer, id) => {
-          if (
-            otherPlayer.active &&
-            otherPlayer.y > WORLD_HEIGHT - GROUND_HEIGHT
-          ) {
-            console.log(
-              `Correcting other player ${id} position - was below ground`
-            );
-            otherPlayer.setY(WORLD_HEIGHT - GROUND_HEIGHT - 10);
-          }
-        });
+    // Blend out part of the offset left by the last correction
+    function applyPendingCorrection(delta: number) {
+      if (!player || (pendingCorrection.x === 0 && pendingCorrection.y === 0)) {
+        return;
+      }
+
+      const blend = Math.min(1, delta / CORRECTION_SMOOTHING_TIME);
+      pendingCorrection.x -= pendingCorrection.x * blend;
+      pendingCorrection.y -= pendingCorrection.y * blend;
+
+      // Drop the remainder once it is below a pixel
+      if (Math.hypot(pendingCorrection.x, pendingCorrection.y) < 0.5) {
+        pendingCorrection.x = 0;
+        pendingCorrection.y = 0;
       }
     }
 
-    function setupBulletCollisions(scene: Phaser.Scene) {
-      console.log("Setting up global bullet collision system");
+    // Move the simulated local player, e.g. by a server correction
+    function shiftLocalPlayer(dx: number, dy: number) {
+      localPlayer.x += dx;
+      localPlayer.y += dy;
+      localPlayerFrom.x += dx;
+      localPlayerFrom.y += dy;
+    }
 
-      // This function now creates a system that will be checked each frame
-      // rather than relying on Phaser's built-in collision
+    // Put the local player where a spawn point or the server says, at rest.
+    // Phaser's physics must not move the sprite; the simulation does that.
+    function placeLocalPlayer(x: number, y: number) {
+      localPlayer.x = x;
+      localPlayer.y = y;
+      localPlayer.physics = createPhysicsState();
+      localPlayerFrom.x = x;
+      localPlayerFrom.y = y;
 
-      // Create an update event that checks for collisions each frame
-      scene.events.on("update", () => {
-        // Skip if no bullets or players
-        if (!bullets || (!player && (!otherPlayers || otherPlayers.size === 0)))
-          return;
+      if (player) {
+        (player.body as Phaser.Physics.Arcade.Body).moves = false;
+        player.setPosition(x, y);
+      }
+    }
 
-        // For each active bullet
-        allBullets.forEach((bulletInfo) => {
-          const bullet = bulletInfo.bullet;
-          const ownerId = bulletInfo.ownerId;
+    // Draw the local player between its last two simulated positions
+    function renderLocalPlayer(scene: Phaser.Scene) {
+      if (!player) return;
 
-          if (!bullet.active) return;
+      const alpha = Phaser.Math.Clamp(
+        (scene.time.now - lastInputSentAt) / INPUT_SEND_INTERVAL,
+        0,
+        1
+      );
+      player.setPosition(
+        localPlayerFrom.x +
+          (localPlayer.x - localPlayerFrom.x) * alpha +
+          pendingCorrection.x,
+        localPlayerFrom.y +
+          (localPlayer.y - localPlayerFrom.y) * alpha +
+          pendingCorrection.y
+      );
+      player.setFlipX(localPlayer.flipX);
+      player.anims.play(localPlayer.animation, true);
+    }
 
-          // Check collision with player (if it's not the owner)
-          if (player && player.active && ownerId !== socket.id) {
-            if (
-              Phaser.Geom.Intersects.RectangleToRectangle(
-                bullet.getBounds(),
-                player.getBounds()
-              )
-            ) {
-              console.log(
-                "Manual collision detection: Bullet hit local player"
-              );
-              bulletHitPlayer(bullet, player);
-              return; // Skip further checks for this bullet
-            }
-          }
+    // Forget predicted inputs and any correction in progress
+    function resetPrediction() {
+      prediction.reset();
+      pendingCorrection.x = 0;
+      pendingCorrection.y = 0;
+    }
 
-          // Check collision with other players
-          if (otherPlayers) {
-            otherPlayers.forEach((otherPlayer, playerId) => {
-              if (!otherPlayer.active || ownerId === playerId) return;
+    // Apply the world state from a server snapshot
+    function applySnapshot(scene: Phaser.Scene, snapshot: WorldSnapshot) {
+      serverClock.observe(snapshot.time);
+      snapshotHistory.push(snapshot);
 
-              if (
-                Phaser.Geom.Intersects.RectangleToRectangle(
-                  bullet.getBounds(),
-                  otherPlayer.getBounds()
-                )
-              ) {
-                console.log(
-                  `Manual collision detection: Bullet hit other player ${playerId}`
-                );
-                bulletHitPlayer(bullet, otherPlayer);
-                return; // Skip further checks for this bullet
-              }
-            });
-          }
+      snapshot.players.forEach((playerInfo) => {
+        if (playerInfo.playerId === socket.id) {
+          reconcileLocalPlayer(playerInfo);
+        } else {
+          updateOtherPlayer(scene, playerInfo, snapshot.time);
+        }
+      });
+
+      // Keep bullets drawn by this client on the server's path
+      snapshot.bullets.forEach((bulletState) => {
+        const bulletInfo = allBullets.find(
+          (b) =>
+            b.bullet.active &&
+            b.bullet.getData("bulletId") === bulletState.bulletId
+        );
+        if (
+          bulletInfo &&
+          Math.abs(bulletInfo.bullet.x - bulletState.x) > BULLET_CORRECTION
+        ) {
+          bulletInfo.bullet.setPosition(bulletState.x, bulletState.y);
+        }
+      });
+
+      applyScores(scene, snapshot.scores);
+    }
+
+    // Turn a decoded binary snapshot into the same shape as a JSON one
+    function toWorldSnapshot(decoded: DecodedSnapshot): WorldSnapshot {
+      const players: PlayerSnapshot[] = [];
+      const scores: Record<string, number> = {};
+
+      decoded.players.forEach((playerState) => {
+        const playerId = playerSlots.get(playerState.slot);
+        if (!playerId) return;
+
+        players.push({
+          playerId: playerId,
+          x: playerState.x,
+          y: playerState.y,
+          flipX: playerState.flipX,
+          health: playerState.health,
+          isDead: playerState.isDead,
+          respawning: playerState.respawning,
+          animation: playerState.animation,
+          // The ack and movement state in a binary snapshot are always the
+          // receiver's
+          ack: playerId === socket.id ? decoded.receiver.ack : 0,
+          velocityX: playerId === socket.id ? decoded.receiver.velocityX : 0,
+          velocityY: playerId === socket.id ? decoded.receiver.velocityY : 0,
+          onGround: playerId === socket.id && decoded.receiver.onGround,
         });
+        scores[playerId] = playerState.kills;
       });
+
+      return {
+        tick: decoded.tick,
+        time: decoded.time,
+        players: players,
+        bullets: decoded.bullets,
+        scores: scores,
+      };
     }
 
-    function bulletHitPlayer(
-      bullet: Phaser.Physics.Arcade.Sprite,
-      playerHit: Phaser.Physics.Arcade.Sprite
+    // Apply a player's state from a server snapshot. Movement goes into the
+    // player's interpolation buffer and is drawn by renderOtherPlayers().
+    function updateOtherPlayer(
+      scene: Phaser.Scene,
+      playerInfo: PlayerSnapshot,
+      snapshotTime: number
     ) {
-      // Skip collision if the bullet or player is not active
-      if (!bullet.active || !playerHit.active) return;
+      const otherPlayer = otherPlayers.get(playerInfo.playerId);
+      if (otherPlayer) {
+        let buffer = remoteBuffers.get(playerInfo.playerId);
+        if (!buffer) {
+          buffer = new SnapshotBuffer();
+          remoteBuffers.set(playerInfo.playerId, buffer);
+        }
+        buffer.push(snapshotTime, {
+          x: playerInfo.x,
+          y: playerInfo.y,
+          flipX: playerInfo.flipX,
+          animation: playerInfo.animation,
+        });
+
+        // Update health if provided
+        if (playerInfo.health !== undefined) {
+          otherPlayer.setData("health", playerInfo.health);
+        }
+
+        // Update visibility based on death state
+        if (playerInfo.isDead !== undefined) {
+          otherPlayer.setVisible(!playerInfo.isDead);
+        }
+
+        // Add physics colliders if they don't exist
+        // This ensures players always have proper physics interactions
+        if (
+          !scene.physics.world.colliders
+            .getActive()
+            .some(
+              (collider) =>
+                (collider.object1 === otherPlayer &&
+                  collider.object2 === platforms) ||
+                (collider.object1 === platforms &&
+                  collider.object2 === otherPlayer)
+            )
+        ) {
+          scene.physics.add.collider(otherPlayer, platforms);
+        }
 
-      console.log("Bullet hit player at:", bullet.x, bullet.y);
+        // Make sure rock collisions are set up
+        if (
+          rocks &&
+          !scene.physics.world.colliders
+            .getActive()
+            .some(
+              (collider) =>
+                (collider.object1 === otherPlayer &&
+                  collider.object2 === rocks) ||
+                (collider.object1 === rocks && collider.object2 === otherPlayer)
+            )
+        ) {
+          scene.physics.add.collider(otherPlayer, rocks);
+        }
+      }
+    }
 
-      // IMPORTANT: Find the bullet in our global tracking array (most reliable)
-      const bulletInfo = allBullets.find((b) => b.bullet === bullet);
+    // Move remote players to where they were INTERPOLATION_DELAY ago
+    function renderOtherPlayers(scene: Phaser.Scene) {
+      if (!otherPlayers) return;
 
-      // Determine bullet owner using multiple strategies
-      let bulletOwnerId: string;
+      const renderTime = serverClock.now() - INTERPOLATION_DELAY;
 
-      if (bulletInfo) {
-        // Strategy 1: Use our global array (most reliable)
-        bulletOwnerId = bulletInfo.ownerId;
-        console.log(`Found bullet owner via global array: ${bulletOwnerId}`);
-      } else if (bullet.getData("owner")) {
-        // Strategy 2: Use Phaser's data manager
-        bulletOwnerId = bullet.getData("owner");
-        console.log(`Found bullet owner via getData: ${bulletOwnerId}`);
-      } else {
-        // Fallback for debugging
-        console.log("WARNING: Bullet with no identifiable owner hit a player");
-        bulletOwnerId = "unknown";
-      }
+      otherPlayers.forEach((otherPlayer, playerId) => {
+        const state = remoteBuffers.get(playerId)?.sample(renderTime);
+        if (!state) return;
 
-      // Determine which player was hit
-      let hitPlayerId: string;
+        // Prevent player from going below ground
+        const validY = Math.min(state.y, WORLD_HEIGHT - GROUND_HEIGHT);
 
-      if (playerHit === player) {
-        // If the local player was hit
-        hitPlayerId = socket.id;
-        console.log(`Local player hit by bullet from: ${bulletOwnerId}`);
-      } else {
-        // If another player was hit, get their ID
-        hitPlayerId = playerHit.getData("playerId");
-        console.log(
-          `Other player ${hitPlayerId} hit by bullet from: ${bulletOwnerId}`
-        );
+        otherPlayer.setPosition(state.x, validY);
+        otherPlayer.setFlipX(state.flipX);
 
-        // If we can't determine the hit player's ID, log it but continue
-        if (!hitPlayerId) {
-          console.log("WARNING: Could not determine hit player's ID");
-          hitPlayerId = "unknown";
+        // Play the animation the player is showing on their own screen
+        if (state.animation && scene.anims.exists(state.animation)) {
+          otherPlayer.anims.play(state.animation, true);
         }
-      }
-
-      // Skip if the bullet hit its owner
-      if (bulletOwnerId === hitPlayerId) {
-        console.log("Bullet hit its owner, ignoring");
-        return;
-      }
-
-      // Create hit effect immediately to confirm the hit was detected
-      const scene = bullet.scene;
-      const hitEffect = scene.add.circle(bullet.x, bullet.y, 8, 0xffff00, 0.8);
-      scene.tweens.add({
-        targets: hitEffect,
-        scale: 2,
-        alpha: 0,
-        duration: 300,
-        onComplete: () => hitEffect.destroy(),
       });
+    }
 
-      // Show hit text indicator
-      const hitText = scene.add
-        .text(bullet.x, bullet.y - 20, "HIT!", {
-          fontSize: "16px",
-          color: "#ffff00",
-          stroke: "#000",
-          strokeThickness: 3,
-        })
-        .setOrigin(0.5);
-
-      scene.tweens.add({
-        targets: hitText,
-        y: hitText.y - 30,
-        alpha: 0,
-        duration: 800,
-        onComplete: () => hitText.destroy(),
+    // Replace the kill counts with the scores from a server snapshot
+    function applyScores(scene: Phaser.Scene, scores: Record<string, number>) {
+      playerKills.clear();
+      Object.entries(scores).forEach(([id, kills]) => {
+        playerKills.set(id, kills);
       });
 
-      // If the hit player is our local player, tell the server we were hit
-      if (hitPlayerId === socket.id) {
-        // Tell the server this bullet hit me
-        if (socket && !invulnerable && !respawnCooldown) {
-          // IMPORTANT: Enhanced debugging to trace server communication
-          console.log(`---> SENDING bulletHitMe EVENT TO SERVER <---`);
-          console.log(`Shooter ID: ${bulletOwnerId}`);
-          console.log(`My position: ${player?.x},${player?.y}`);
-          console.log(`Bullet position: ${bullet.x},${bullet.y}`);
-
-          // CRITICAL FIX: Add more information to the hit event
-          socket.emit("bulletHitMe", {
-            shooterId: bulletOwnerId,
-            timestamp: Date.now(),
-            position: { x: player?.x, y: player?.y },
-            bulletPosition: { x: bullet.x, y: bullet.y },
-          });
-
-          // Also apply damage locally as a backup, in case the server doesn't respond
-          // This will be corrected when the server sends back the official health
-          if (playerHealth > 0) {
-            console.log("Applying local damage as backup");
-            playerHealth = Math.max(0, playerHealth - 1);
-            if (healthText) {
-              healthText.setText(`Health: ${playerHealth}`);
-            }
-          }
-
-          // Flash the camera red for hit feedback
-          scene.cameras.main.flash(100, 255, 0, 0, 0.3);
-        } else {
-          console.log(
-            `Hit ignored: invulnerable=${invulnerable}, respawnCooldown=${respawnCooldown}`
-          );
+      const myKills = socket.id ? scores[socket.id] : undefined;
+      if (myKills !== undefined && myKills !== killCount) {
+        killCount = myKills;
+        if (killCountText) {
+          killCountText.setText(`Kills: ${killCount}`);
         }
-      } else if (bulletOwnerId === socket.id) {
-        // If we hit another player, tell the server about our successful hit
-        console.log(`---> SENDING hitPlayer EVENT TO SERVER <---`);
-        console.log(`I hit player: ${hitPlayerId}`);
-
-        // Send a more detailed hit event to the server
-        socket.emit("hitPlayer", {
-          targetId: hitPlayerId,
-          timestamp: Date.now(),
-          position: { x: bullet.x, y: bullet.y },
-        });
       }
 
-      // Cleanup and destroy the bullet
-      const emitter = bullet.getData("emitter");
-      if (emitter) {
-        emitter.destroy();
+      // Update leaderboard if visible
+      if (showLeaderboard) {
+        updateLeaderboard(scene);
       }
-
-      // Remove from tracking array
-      allBullets = allBullets.filter((b) => b.bullet !== bullet);
-
-      // Destroy the bullet
-      bullet.destroy();
     }
 
-    function bulletHitPlayerCheck(
-      bullet: Phaser.Physics.Arcade.Sprite,
-      playerHit: Phaser.Physics.Arcade.Sprite
-    ) {
-      if (!bullet.active || !playerHit.active) return false;
-
-      // Get the bullet ID
-      const bulletId = bullet.name;
-
-      // Multi-strategy approach to find the bullet owner:
-      let bulletOwnerId = null;
-
-      // Try method 1: custom map with bullet ID
-      if (bulletId && bulletOwners.has(bulletId)) {
-        bulletOwnerId = bulletOwners.get(bulletId);
-      }
-      // Try method 2: direct Phaser data properties
-      else if (bullet.getData("owner")) {
-        bulletOwnerId = bullet.getData("owner");
-      }
-      // Try method 3: custom property
-      else if (bullet.owner) {
-        bulletOwnerId = bullet.owner;
-      }
-      // Fallback
-      else {
-        bulletOwnerId = "unknown";
+    function correctPlayerPositions(scene: Phaser.Scene) {
+      // Check and correct our own player if needed
+      if (player && player.active && player.y > WORLD_HEIGHT - GROUND_HEIGHT) {
+        console.log(`Correcting local player position - was below ground`);
+        player.setY(WORLD_HEIGHT - GROUND_HEIGHT - 10);
       }
 
-      // Get hit player ID
-      const playerId =
-        playerHit === player ? socket.id : safeGetData(playerHit, "playerId");
-
-      // Don't let players shoot themselves
-      return bulletOwnerId !== playerId;
+      // Check and correct all other players
+      if (otherPlayers) {
+        otherPlayers.forEach((otherPlayer, id) => {
+          if (
+            otherPlayer.active &&
+            otherPlayer.y > WORLD_HEIGHT - GROUND_HEIGHT
+          ) {
+            console.log(
+              `Correcting other player ${id} position - was below ground`
+            );
+            otherPlayer.setY(WORLD_HEIGHT - GROUND_HEIGHT - 10);
+          }
+        });
+      }
     }
 
     // Add this helper function to ensure other players are properly initialized with the noot texture
@@ -1614,6 +1822,7 @@ export default function Game({ gameData }: { gameData: any }) {
 
       // Set respawn cooldown immediately to prevent multiple death processing
       respawnCooldown = true;
+      resetPrediction();
 
       // Set health to 0 (should already be 0 but just to be sure)
       playerHealth = 0;
@@ -1682,46 +1891,56 @@ export default function Game({ gameData }: { gameData: any }) {
           .setScrollFactor(0)
           .setDepth(1000);
       }
+    }
 
-      // Setup respawn timer (let server handle the actual respawn timing)
-      // We'll set a client-side timer as a fallback
-      scene.time.delayedCall(3000, () => {
-        // Only respawn locally if server hasn't already told us to respawn
-        if (respawnCooldown && player) {
-          console.log("CLIENT: Local respawn fallback triggered");
-
-          // Pick a random spawn point
-          const spawnIndex = Math.floor(Math.random() * SPAWN_POINTS.length);
-          spawnPlayer(scene, spawnIndex);
-
-          // Notify server of our respawn (if connected)
-          if (socket) {
-            socket.emit("playerRespawned", {
-              x: player.x,
-              y: player.y,
-              health: playerHealth,
-            });
-          }
-        }
+    // Replay the last moments before our death from the killer's side, drawn
+    // over the game. Nothing waits for it, the respawn stops it early.
+    function startKillcam(
+      scene: Phaser.Scene,
+      killerId: string,
+      deathTime: number
+    ) {
+      const killer = snapshotHistory
+        .newest()
+        ?.players.find((state) => state.playerId === killerId);
+      if (!killer || !respawnCooldown) return;
+
+      const names = new Map<string, string>();
+      otherPlayers.forEach((otherPlayer, playerId) => {
+        names.set(playerId, shortenAddress(otherPlayer.getData("address")));
       });
+      if (socket.id) names.set(socket.id, "You");
+
+      const data: KillcamData = {
+        history: snapshotHistory,
+        deathTime: deathTime,
+        killerId: killerId,
+        killerName: names.get(killerId) || "",
+        killerHealth: killer.health,
+        names: names,
+      };
+      scene.scene.launch(KILLCAM_SCENE, data);
     }
-    // Function to fire a bullet
-    function fireBullet(scene: Phaser.Scene) {
-      if (!player || !bullets) return;
-
-      const time = scene.time.now;
-      // Rate limit: can only fire every 200ms
-      if (time - lastFired < 200) return;
 
-      lastFired = time;
-
-      // Calculate proper bullet position at character's head level
-      const bulletOffsetY = -30; // Offset upward from center to head level
-      const bulletPosX = player.x + (player.flipX ? -20 : 20); // Offset based on direction
-      const bulletPosY = player.y + bulletOffsetY; // Head level
+    function stopKillcam(scene: Phaser.Scene) {
+      if (scene.scene.isActive(KILLCAM_SCENE)) {
+        scene.scene.stop(KILLCAM_SCENE);
+      }
+    }
 
-      // Create the bullet at proper position
-      const bullet = bullets.create(bulletPosX, bulletPosY, "bullet");
+    // Function to fire a bullet. Draws the shot we are about to send to the
+    // server and returns the bullet's ID.
+    function fireBullet(scene: Phaser.Scene) {
+      if (!player || !bullets) return undefined;
+
+      // Start the bullet where the server will, at the character's head
+      const shot = createBullet(
+        localPlayer.x,
+        localPlayer.y,
+        localPlayer.flipX,
+        scene.time.now
+      );
+      const bullet = bullets.create(shot.x, shot.y, "bullet");
 
       // IMPORTANT: Explicitly set the bullet origin and size for better collision
       bullet.setOrigin(0.5, 0.5);
@@ -1732,12 +1951,11 @@ export default function Game({ gameData }: { gameData: any }) {
       bullet.body.allowGravity = false;
 
       // Set velocity based on player direction - ensure horizontal movement only
-      const bulletSpeed = 600;
-      const velocityX = player.flipX ? -bulletSpeed : bulletSpeed;
-      bullet.setVelocityX(velocityX);
+      bullet.setVelocityX(shot.velocityX);
       bullet.setVelocityY(0); // Force horizontal movement
 
-      // Generate a unique ID for this bullet
+      // Generate a unique ID for this bullet. The server files it under our
+      // player ID, which is how snapshots and bulletDestroyed refer to it.
       const bulletId = `bullet_${Date.now()}_${Math.floor(
         Math.random() * 10000
       )}`;
@@ -1745,18 +1963,18 @@ export default function Game({ gameData }: { gameData: any }) {
       // Store the owner ID directly on the bullet object in multiple ways
       bullet.setData("owner", socket.id);
       bullet.setData("ownerId", socket.id);
-      bullet.setData("bulletId", bulletId);
+      bullet.setData("bulletId", `${socket.id}:${bulletId}`);
 
       // Add to the global tracking array - this is the most reliable method
-      allBullets.push({ bullet, ownerId: socket.id });
+      allBullets.push({ bullet, ownerId: socket.id ?? "local" });
 
       // Debug message with the bullet's key properties
       console.log(
-        `CLIENT: Created bullet with ID ${bulletId}, owner: ${socket.id}, position: ${bulletPosX},${bulletPosY}`
+        `CLIENT: Created bullet with ID ${bulletId}, owner: ${socket.id}, position: ${shot.x},${shot.y}`
       );
 
       // Add a trail effect
-      const emitter = scene.add.particles(bulletPosX, bulletPosY, "bullet", {
+      const emitter = scene.add.particles(shot.x, shot.y, "bullet", {
         speed: 20,
         scale: { start: 0.2, end: 0 },
         alpha: { start: 0.5, end: 0 },
@@ -1768,33 +1986,12 @@ export default function Game({ gameData }: { gameData: any }) {
       // Store emitter reference for cleanup
       bullet.setData("emitter", emitter);
 
-      // Add explicit collision handling with rocks and players
-      // This ensures every bullet has its own collision handlers
+      // Add explicit collision handling with rocks. Hits on players are
+      // decided by the server and arrive as bulletDestroyed events.
       if (rocks) {
         scene.physics.add.overlap(bullet, rocks, bulletHitRock, null, scene);
       }
 
-      // Add collision with other players - this is crucial
-      if (otherPlayers) {
-        otherPlayers.forEach((otherPlayer) => {
-          // Important: Add direct collider for THIS bullet with EACH other player
-          scene.physics.add.overlap(
-            bullet,
-            otherPlayer,
-            (bullet, otherPlayer) => {
-              // Direct inline collision handler
-              console.log(`Direct collision detected: Bullet hit otherPlayer`);
-              bulletHitPlayer(
-                bullet as Phaser.Physics.Arcade.Sprite,
-                otherPlayer as Phaser.Physics.Arcade.Sprite
-              );
-            },
-            null,
-            scene
-          );
-        });
-      }
-
       // Destroy bullets after they've traveled too far (timeout)
       scene.time.delayedCall(2000, () => {
         if (bullet && bullet.active) {
@@ -1812,17 +2009,54 @@ export default function Game({ gameData }: { gameData: any }) {
         }
       });
 
-      // IMPORTANT: Make sure the server knows about this bullet
-      if (socket) {
-        socket.emit("bulletFired", {
-          bulletId: bulletId,
-          x: bulletPosX,
-          y: bulletPosY,
-          velocityX: velocityX,
-          ownerId: socket.id, // Explicitly include owner ID
-          timestamp: Date.now(), // Add timestamp for debugging
-        });
+      // IMPORTANT: The server spawns its own copy of this bullet and decides hits
+      return bulletId;
+    }
+
+    // Which movement keys are held (arrow keys or WASD)
+    function readMovementKeys(scene: Phaser.Scene) {
+      const keyboard = scene.input.keyboard;
+      const isHeld = (key: number) =>
+        !!keyboard && keyboard.checkDown(keyboard.addKey(key), 150);
+
+      return {
+        left:
+          !!cursors.left?.isDown || isHeld(Phaser.Input.Keyboard.KeyCodes.A),
+        right:
+          !!cursors.right?.isDown || isHeld(Phaser.Input.Keyboard.KeyCodes.D),
+        jump: !!cursors.up?.isDown || isHeld(Phaser.Input.Keyboard.KeyCodes.W),
+      };
+    }
+
+    // Send the keys held right now to the server as one input command, and
+    // fire if the cooldown allows it - the server counts it the same way
+    function sendInput(scene: Phaser.Scene) {
+      if (!player || !socket) return;
+
+      const keys = readMovementKeys(scene);
+      const fire = spaceKey.isDown;
+      let aim = localPlayer.flipX ? Math.PI : 0;
+      if (keys.left !== keys.right) {
+        aim = keys.left ? Math.PI : 0;
       }
+
+      // Predict the step the server will take with this input
+      const input = { ...keys, fire: fire, aim: aim };
+      localPlayerFrom.x = localPlayer.x;
+      localPlayerFrom.y = localPlayer.y;
+      stepPlayer(localPlayer, input, INPUT_SEND_INTERVAL / 1000);
+
+      if (fireCooldown > 0) fireCooldown--;
+      let bulletId: string | undefined;
+      if (fire && fireCooldown === 0) {
+        bulletId = fireBullet(scene);
+        fireCooldown = FIRE_INTERVAL_TICKS;
+      }
+
+      // Keep the input so it can be replayed on top of the server's answer
+      const seq = prediction.record(input);
+
+      socket.emit("playerInput", { ...input, seq: seq, bulletId: bulletId });
     }
 
     function createHealthDisplay(scene: Phaser.Scene) {
@@ -1856,7 +2090,7 @@ export default function Game({ gameData }: { gameData: any }) {
       socket.off("playerDamaged");
 
       // Add enhanced playerDamaged event listener with more logging
-      socket.on("playerDamaged", (data: any) => {
+      socket.on("playerDamaged", (data) => {
         if (!scene.scene.isActive()) return;
 
         console.log(`==== SOCKET DEBUG: Received playerDamaged event ====`);
@@ -2083,188 +2317,20 @@ export default function Game({ gameData }: { gameData: any }) {
           debug: false,
         },
       },
-      scene: {
-        preload: preload,
-        create: create,
-        update: update,
-      },
+      // The killcam only runs while we wait to respawn
+      scene: [
+        {
+          preload: preload,
+          create: create,
+          update: update,
+        },
+        KillcamScene,
+      ],
     };
 
     // Initialize the game
     game = new Phaser.Game(config);
 
-    function createNootTextures(scene: Phaser.Scene) {
-      // Increased texture height to 80 pixels to fit the raised character
-      const width = 64;
-      const height = 115;
-      const centerX = width / 2;
-      const centerY = height / 2.5; // Adjusted for raised position
-
-      // Create the base NOOT parts once - we'll recreate these for each frame
-      function drawBaseNoot(graphics: Phaser.GameObjects.Graphics) {
-        // DARK BODY
-        graphics.fillStyle(0x222222, 1);
-        graphics.beginPath();
-        // Move the body up by 24 pixels total (16 + 8 more)
-        graphics.arc(centerX - 5, centerY - 24, 18, 0, Math.PI * 1); // Body moved up more
-        graphics.arc(centerX + 10, centerY - 36, 10, 0, Math.PI * 2); // Head moved up more
-        graphics.fill();
-
-        // ORANGE BEAK - adjusted for new head position
-        graphics.fillStyle(0xff9900, 1);
-        graphics.beginPath();
-        graphics.moveTo(centerX + 18, centerY - 34); // Moved up more
-        graphics.lineTo(centerX + 30, centerY - 32); // Moved up more
-        graphics.lineTo(centerX + 18, centerY - 26); // Moved up more
-        graphics.closePath();
-        graphics.fill();
-
-        // SINGLE EYE - adjusted for new head position
-        graphics.fillStyle(0x000000, 1);
-        graphics.beginPath();
-        graphics.arc(centerX + 8, centerY - 36, 5, 0, Math.PI * 2); // Moved up more
-        graphics.fill();
-
-        // EYE HIGHLIGHT - adjusted for new head position
-        graphics.fillStyle(0xffffff, 1);
-        graphics.beginPath();
-        graphics.arc(centerX + 6, centerY - 37, 2, 0, Math.PI * 2); // Moved up more
-        graphics.fill();
-      }
-
-      // Create base/idle texture
-      const idleGraphics = scene.make.graphics({ x: 0, y: 0, add: false });
-
-      // Draw base parts
-      drawBaseNoot(idleGraphics);
-
-      // Draw static legs and feet - moved up by 24 pixels total from original
-      idleGraphics.fillStyle(0xff9900, 1);
-      idleGraphics.fillRect(centerX - 8, centerY - 9, 6, 10); // Left leg moved up more
-      idleGraphics.fillRect(centerX + 2, centerY - 9, 6, 10); // Right leg moved up more
-      idleGraphics.fillRect(centerX - 10, centerY + 1, 10, 5); // Left foot moved up more
-      idleGraphics.fillRect(centerX, centerY + 1, 10, 5); // Right foot moved up more
-
-      // Draw static wing - moved up to match body
-      idleGraphics.fillStyle(0x444444, 1);
-      idleGraphics.beginPath();
-      idleGraphics.arc(centerX - 5, centerY - 19, 12, -0.5, 0.5); // Moved up more
-      idleGraphics.lineTo(centerX - 5, centerY - 19); // Moved up more
-      idleGraphics.closePath();
-      idleGraphics.fill();
-
-      // Generate idle texture
-      idleGraphics.generateTexture("noot_idle", width, height);
-      idleGraphics.destroy();
-
-      // Create walking animation frames - adjusted all positions
-      for (let i = 0; i < 4; i++) {
-        const walkFrame = scene.make.graphics({ x: 0, y: 0, add: false });
-
-        // Draw base parts (same for all frames)
-        drawBaseNoot(walkFrame);
-
-        // Draw animated legs with bobbing motion - moved up more
-        walkFrame.fillStyle(0xff9900, 1);
-        walkFrame.fillRect(
-          centerX - 8,
-          centerY - 9 + Math.sin((i * Math.PI) / 2) * 5,
-          6,
-          10
-        ); // Left leg moved up more
-
-        walkFrame.fillRect(
-          centerX + 2,
-          centerY - 9 - Math.sin((i * Math.PI) / 2) * 5,
-          6,
-          10
-        ); // Right leg moved up more
-
-        // Draw animated feet - moved up more
-        walkFrame.fillRect(
-          centerX - 10,
-          centerY + 1 + Math.sin((i * Math.PI) / 2) * 5,
-          10,
-          5
-        ); // Left foot moved up more
-
-        walkFrame.fillRect(
-          centerX,
-          centerY + 1 - Math.sin((i * Math.PI) / 2) * 5,
-          10,
-          5
-        ); // Right foot moved up more
-
-        // Draw wing with slight movement - adjusted for new body position
-        walkFrame.fillStyle(0x444444, 1);
-        const wingAngle = -0.5 + Math.sin((i * Math.PI) / 2) * 0.1;
-        walkFrame.beginPath();
-        walkFrame.arc(centerX - 5, centerY - 19, 12, wingAngle, 0.5); // Moved up more
-        walkFrame.lineTo(centerX - 5, centerY - 19); // Moved up more
-        walkFrame.closePath();
-        walkFrame.fill();
-
-        // Generate walk frame texture
-        walkFrame.generateTexture(`noot_walk_${i}`, width, height);
-        walkFrame.destroy();
-      }
-
-      // Create jump frame - adjust positions
-      const jumpFrame = scene.make.graphics({ x: 0, y: 0, add: false });
-
-      // For jump frame, we need to adjust the head position
-      // DARK BODY
-      jumpFrame.fillStyle(0x222222, 1);
-      jumpFrame.beginPath();
-      jumpFrame.arc(centerX - 5, centerY - 24, 18, 0, Math.PI * 1); // Body moved up more
-      jumpFrame.arc(centerX + 10, centerY - 41, 10, 0, Math.PI * 2); // Head moved up more
-      jumpFrame.fill();
-
-      // ORANGE BEAK - adjusted for head position
-      jumpFrame.fillStyle(0xff9900, 1);
-      jumpFrame.beginPath();
-      jumpFrame.moveTo(centerX + 18, centerY - 39); // Moved up more
-      jumpFrame.lineTo(centerX + 30, centerY - 37); // Moved up more
-      jumpFrame.lineTo(centerX + 18, centerY - 31); // Moved up more
-      jumpFrame.closePath();
-      jumpFrame.fill();
-
-      // EYE - adjusted for head position
-      jumpFrame.fillStyle(0x000000, 1);
-      jumpFrame.beginPath();
-      jumpFrame.arc(centerX + 8, centerY - 41, 5, 0, Math.PI * 2); // Moved up more
-      jumpFrame.fill();
-
-      // EYE HIGHLIGHT - adjusted for head position
-      jumpFrame.fillStyle(0xffffff, 1);
-      jumpFrame.beginPath();
-      jumpFrame.arc(centerX + 6, centerY - 42, 2, 0, Math.PI * 2); // Moved up more
-      jumpFrame.fill();
-
-      // WINGS SPREAD FOR JUMPING
-      jumpFrame.fillStyle(0x444444, 1);
-      jumpFrame.fillRect(centerX - 23, centerY - 24, 18, 5); // Left wing moved up more
-      jumpFrame.fillRect(centerX + 5, centerY - 24, 18, 5); // Right wing moved up more
-
-      // LEGS EXTENDED FOR JUMPING
-      jumpFrame.fillStyle(0xff9900, 1);
-      jumpFrame.fillRect(centerX - 8, centerY - 9, 6, 15); // Left leg moved up more
-      jumpFrame.fillRect(centerX + 2, centerY - 9, 6, 15); // Right leg moved up more
-      jumpFrame.fillRect(centerX - 10, centerY + 6, 10, 5); // Left foot moved up more
-      jumpFrame.fillRect(centerX, centerY + 6, 10, 5); // Right foot moved up more
-
-      // Generate jump texture
-      jumpFrame.generateTexture("noot_jump", width, height);
-      jumpFrame.destroy();
-
-      // Also create a simple base texture for possible other uses
-      const baseFrame = scene.make.graphics({ x: 0, y: 0, add: false });
-      drawBaseNoot(baseFrame);
-      baseFrame.generateTexture("noot_base", width, height);
-      baseFrame.destroy();
-
-      return { centerX, centerY, width, height };
-    }
     //Preload game assets
     function preload(this: Phaser.Scene) {
       // this.load.audio("nootSound", [
@@ -2278,27 +2344,9 @@ export default function Game({ gameData }: { gameData: any }) {
       //     duration: 0.5,
       //   },
       // ]);
-      // Create a simple ground texture if we don't have an asset
+      // Draw the textures once the loader is done
       this.load.on("complete", () => {
-        // Create a graphics object for the ground
-        const groundGraphics = this.make.graphics({ x: 0, y: 0, add: false });
-
-        // Draw a rectangle for the ground
-        groundGraphics.fillStyle(0x654321, 1); // Brown color
-        groundGraphics.fillRect(0, 0, 64, 64);
-
-        // Add some texture to make it look like dirt/grass
-        groundGraphics.fillStyle(0x7cfc00, 1); // Green for grass on top
-        groundGraphics.fillRect(0, 0, 64, 15);
-
-        // Add dirt details
-        groundGraphics.fillStyle(0x8b4513, 0.5); // Darker brown for dirt texture
-        groundGraphics.fillRect(10, 20, 10, 8);
-        groundGraphics.fillRect(30, 35, 15, 10);
-        groundGraphics.fillRect(50, 25, 12, 8);
-
-        // Generate a texture from the graphics object
-        groundGraphics.generateTexture("ground", 64, 64);
+        createWorldTextures(this);
 
         // Create a player character graphic
         const playerGraphics = this.make.graphics({ x: 0, y: 0, add: false });
@@ -2343,39 +2391,6 @@ export default function Game({ gameData }: { gameData: any }) {
 
         // Generate player2 texture (32x32 pixels)
         player2Graphics.generateTexture("player2", 32, 32);
-
-        const nootGraphics = this.make.graphics({ x: 0, y: 0, add: false });
-        nootGraphics.clear();
-
-        // Size parameters (64x64 texture)
-        createNootTextures(this);
-        // Create a bullet graphic
-        const bulletGraphics = this.make.graphics({ x: 0, y: 0, add: false });
-
-        // Draw bullet
-        bulletGraphics.fillStyle(0xffff00, 1); // Yellow core
-        bulletGraphics.fillCircle(4, 4, 4);
-
-        bulletGraphics.fillStyle(0xff6600, 1); // Orange trail
-        bulletGraphics.fillCircle(2, 2, 2);
-
-        // Generate bullet texture (8x8 pixels)
-        bulletGraphics.generateTexture("bullet", 8, 8);
-
-        const rockGraphics = this.make.graphics({ x: 0, y: 0, add: false });
-
-        // Draw a rock shape
-        rockGraphics.fillStyle(0x777777, 1); // Gray color for base
-        rockGraphics.fillCircle(16, 16, 16);
-
-        // Add some details to make it look more like a rock
-        rockGraphics.fillStyle(0x555555, 0.7); // Darker gray for details
-        rockGraphics.fillRect(5, 10, 8, 4);
-        rockGraphics.fillRect(20, 8, 6, 5);
-        rockGraphics.fillRect(12, 20, 10, 6);
-
-        // Generate rock texture (32x32 pixels)
-        rockGraphics.generateTexture("rock", 32, 32);
       });
     }
 
@@ -2432,31 +2447,11 @@ export default function Game({ gameData }: { gameData: any }) {
         };
 
         // Spawn the player at a random spawn point
-        spawnPlayer(this, Math.floor(Math.random() * SPAWN_POINTS.length));
-
-        this.anims.create({
-          key: "noot_walk",
-          frames: [
-            { key: "noot_walk_0" },
-            { key: "noot_walk_1" },
-            { key: "noot_walk_2" },
-            { key: "noot_walk_3" },
-          ],
-          frameRate: 8,
-          repeat: -1,
-        });
-
-        this.anims.create({
-          key: "noot_jump",
-          frames: [{ key: "noot_jump" }],
-          frameRate: 10,
-        });
+        if (!spectating) {
+          spawnPlayer(this, Math.floor(Math.random() * SPAWN_POINTS.length));
+        }
 
-        this.anims.create({
-          key: "noot_idle",
-          frames: [{ key: "noot_idle" }], // Using the dedicated idle frame instead of base
-          frameRate: 10,
-        });
+        createNootAnimations(this);
 
         // Add collision between bullets and platforms
         this.physics.add.collider(
@@ -2488,76 +2483,24 @@ export default function Game({ gameData }: { gameData: any }) {
           .setScrollFactor(0)
           .setDepth(1000);
 
-        // ADD YOUR NEW CODE HERE - collision detection for bullets hitting player
-        this.physics.add.overlap(
-          bullets,
-          player,
-          (bullet: any, playerSprite: any) => {
-            // Get the bullet owner using both tracking methods for reliability
-            const bulletOwner =
-              bulletOwners.get(bullet) || bullet.getData("owner");
-
-            console.log(
-              `Bullet collision detected! Owner: ${bulletOwner}, My ID: ${socket?.id}`
-            );
-
-            // Only process if the bullet wasn't fired by this player
-            // and player is not invulnerable or in respawn cooldown
-            if (
-              bulletOwner !== socket?.id &&
-              !invulnerable &&
-              !respawnCooldown
-            ) {
-              console.log(`CLIENT: I was hit by bullet from ${bulletOwner}`);
-
-              // Tell server we were hit
-              if (socket) {
-                socket.emit("bulletHitMe", {
-                  shooterId: bulletOwner,
-                });
-              }
-
-              // Create hit effect - purely visual, health reduction happens on server
-              const hitEffect = this.add.circle(
-                bullet.x,
-                bullet.y,
-                10,
-                0xff0000,
-                0.7
-              );
-              this.tweens.add({
-                targets: hitEffect,
-                alpha: 0,
-                scale: 2,
-                duration: 200,
-                onComplete: () => hitEffect.destroy(),
-              });
-
-              // Flash the player to indicate damage
-              this.tweens.add({
-                targets: player,
-                alpha: 0.3,
-                duration: 100,
-                yoyo: true,
-                repeat: 2,
-              });
-
-              // Destroy bullet
-              const emitter = bullet.getData("emitter");
-              if (emitter) {
-                emitter.destroy();
-              }
-              bulletOwners.delete(bullet);
-              bullet.destroy();
-            }
-          },
-          undefined,
-          this
-        );
+        // Add the match phase and timer
+        matchTimerText = this.add
+          .text(this.cameras.main.width / 2, 16, "", {
+            fontSize: "28px",
+            color: "#ffffff",
+            stroke: "#000000",
+            strokeThickness: 4,
+          })
+          .setOrigin(0.5, 0)
+          .setScrollFactor(0)
+          .setDepth(1000);
 
         leaderboardKey = this.input.keyboard.addKey(
           Phaser.Input.Keyboard.KeyCodes.TAB
         );
+        freeCameraKey = this.input.keyboard?.addKey(
+          Phaser.Input.Keyboard.KeyCodes.C
+        );
 
         // Create the leaderboard (initially hidden)
         leaderboardText = this.add
@@ -2849,7 +2792,11 @@ export default function Game({ gameData }: { gameData: any }) {
 
         // Spawn the player at the first spawn point - do this last to ensure everything else is ready
         this.time.delayedCall(100, () => {
-          spawnPlayer(this, 0);
+          if (spectating) {
+            startSpectating(this);
+          } else {
+            spawnPlayer(this, 0);
+          }
         });
       } catch (error) {
         console.error("Error in create function:", error);
@@ -2857,109 +2804,37 @@ export default function Game({ gameData }: { gameData: any }) {
     }
 
     // Update game state (runs on every frame)
-    function update(this: Phaser.Scene) {
+    function update(this: Phaser.Scene, time: number, delta: number) {
       try {
-        // Only process if player exists
-        if (!player) return;
-
-        // Skip all player movement/controls if player is dead or in respawn cooldown
-        if (respawnCooldown) return;
+        // Remote players keep moving even while we are dead
+        renderOtherPlayers(this);
+        updateMatchTimer(this);
 
-        // Track if player has moved
-        let hasMovement = false;
-
-        // Handle animation states first
-        if (!player.body.touching.down) {
-          // Jumping/Flying animation
-          player.anims.play("noot_jump", true);
-        } else if (
-          cursors.left?.isDown ||
-          cursors.right?.isDown ||
-          this.input.keyboard.checkDown(
-            this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.A),
-            150
-          ) ||
-          this.input.keyboard.checkDown(
-            this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.D),
-            150
-          )
-        ) {
-          // Walking animation when moving on ground
-          player.anims.play("noot_walk", true);
-          hasMovement = true;
-        } else {
-          // Idle animation when standing still
-          player.anims.play("noot_idle", true);
+        if (spectating) {
+          updateSpectatorCamera(this, delta);
+          return;
         }
 
-        // Handle movement logic
-        if (
-          cursors.left?.isDown ||
-          this.input.keyboard.checkDown(
-            this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.A),
-            150
-          )
-        ) {
-          player.setVelocityX(-160);
-          player.setFlipX(true);
-          hasMovement = true;
-        } else if (
-          cursors.right?.isDown ||
-          this.input.keyboard.checkDown(
-            this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.D),
-            150
-          )
-        ) {
-          player.setVelocityX(160);
-          player.setFlipX(false);
-          hasMovement = true;
-        } else {
-          player.setVelocityX(0);
-        }
+        // Only process if player exists, and stop playing once the match is over
+        if (!player || matchPhase === "finished") return;
 
-        // Handle jumping
-        if (
-          (cursors.up?.isDown ||
-            this.input.keyboard.checkDown(
-              this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.W),
-              150
-            )) &&
-          player.body.touching.down
-        ) {
-          const jumpPower = player.texture.key === "noot" ? -600 : -430;
-          player.setVelocityY(jumpPower);
-          hasMovement = true;
-          // Play jump sound if you have one
-          // this.sound.play('jump_sound');
-        }
+        // Skip all player movement/controls if player is dead or in respawn cooldown
+        if (respawnCooldown) return;
 
-        // Handle shooting
-        if (spaceKey.isDown) {
-          fireBullet(this);
+        // Blend in any correction from the last server snapshot
+        applyPendingCorrection(delta);
+
+        // Send one input command per server tick, keeping a steady rate
+        // unless we fell far behind (e.g. the tab was in the background)
+        if (socket && this.time.now - lastInputSentAt >= INPUT_SEND_INTERVAL) {
+          lastInputSentAt =
+            this.time.now - lastInputSentAt > INPUT_SEND_INTERVAL * 3
+              ? this.time.now
+              : lastInputSentAt + INPUT_SEND_INTERVAL;
+          sendInput(this);
         }
 
-        // Send player position and state to server if it changed
-        if (
-          socket &&
-          (player.x !== prevX ||
-            player.y !== prevY ||
-            player.flipX !== prevFlipX ||
-            hasMovement)
-        ) {
-          // Update previous position
-          prevX = player.x;
-          prevY = player.y;
-          prevFlipX = player.flipX;
-
-          // Send position to server along with current health
-          socket.emit("playerMovement", {
-            x: player.x,
-            y: player.y,
-            flipX: player.flipX,
-            health: playerHealth,
-            animation: player.anims.currentAnim?.key, // Send current animation state
-          });
-        }
+        renderLocalPlayer(this);
 
         // Rest of your existing update code...
         if (Phaser.Input.Keyboard.JustDown(leaderboardKey)) {
@@ -2973,53 +2848,6 @@ export default function Game({ gameData }: { gameData: any }) {
           }
         }
 
-        // BACKUP COLLISION DETECTION
-        if (player && !respawnCooldown && !invulnerable) {
-          const playerBounds = player.getBounds();
-
-          bullets.getChildren().forEach((bulletObj: any) => {
-            const bullet = bulletObj as Phaser.Physics.Arcade.Sprite;
-            const bulletOwner =
-              bulletOwners.get(bullet) || bullet.getData("owner");
-
-            if (bulletOwner === socket?.id) return;
-
-            const bulletBounds = bullet.getBounds();
-
-            if (Phaser.Geom.Rectangle.Overlaps(playerBounds, bulletBounds)) {
-              console.log(
-                "MANUAL COLLISION DETECTED between bullet and player!"
-              );
-
-              if (socket) {
-                socket.emit("bulletHitMe", {
-                  shooterId: bulletOwner,
-                });
-              }
-
-              const hitEffect = this.add.circle(
-                bullet.x,
-                bullet.y,
-                10,
-                0xff0000,
-                0.7
-              );
-              this.tweens.add({
-                targets: hitEffect,
-                alpha: 0,
-                scale: 2,
-                duration: 200,
-                onComplete: () => hitEffect.destroy(),
-              });
-
-              const emitter = bullet.getData("emitter");
-              if (emitter) emitter.destroy();
-              bulletOwners.delete(bullet);
-              bullet.destroy();
-            }
-          });
-        }
-
         // Handle bullets that go too far off screen
         bullets.getChildren().forEach((bulletObj: any) => {
           const bullet = bulletObj as Phaser.Physics.Arcade.Sprite;
@@ -3066,19 +2894,89 @@ export default function Game({ gameData }: { gameData: any }) {
         if (healthText) {
           healthText.setText(`Health: ${playerHealth}`);
         }
-
-        // Check for player falling off the world
-        if (player && player.y > this.physics.world.bounds.height + 100) {
-          if (socket && !respawnCooldown) {
-            socket.emit("playerDied");
-            playerDied(this);
-          }
-        }
       } catch (error) {
         console.error("Error in update function:", error);
       }
     }
 
+    // Watch the match instead of playing: the local player goes away, the
+    // leaderboard stays up and the camera follows other players
+    function startSpectating(scene: Phaser.Scene) {
+      spectating = true;
+      setSpectating(true);
+
+      if (player) {
+        player.getData("nameTag")?.destroy();
+        player.destroy();
+        player = null;
+      }
+      healthText?.setVisible(false);
+      killCountText?.setVisible(false);
+      deathMessageText?.setVisible(false);
+
+      scene.cameras.main.setBounds(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+      showLeaderboard = true;
+      leaderboardText?.setVisible(true);
+      updateLeaderboard(scene);
+
+      if (!socket) {
+        initializeMultiplayer(scene);
+      }
+    }
+
+    // Space follows the next player and C frees the camera, which the
+    // movement keys then pan
+    function updateSpectatorCamera(scene: Phaser.Scene, delta: number) {
+      if (Phaser.Input.Keyboard.JustDown(spaceKey)) {
+        freeCamera = false;
+        followNextPlayer(scene);
+      }
+      if (freeCameraKey && Phaser.Input.Keyboard.JustDown(freeCameraKey)) {
+        freeCamera = true;
+        followPlayer(scene, null);
+      }
+
+      // Keep following someone, also after the followed player left
+      if (!freeCamera && (!spectatedId || !otherPlayers?.has(spectatedId))) {
+        followNextPlayer(scene);
+      }
+
+      if (freeCamera) {
+        const camera = scene.cameras.main;
+        const keys = readMovementKeys(scene);
+        const down =
+          !!cursors.down?.isDown ||
+          !!scene.input.keyboard?.checkDown(
+            scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.S),
+            150
+          );
+        const distance = (SPECTATOR_CAMERA_SPEED * delta) / 1000;
+
+        camera.scrollX += (Number(keys.right) - Number(keys.left)) * distance;
+        camera.scrollY += (Number(down) - Number(keys.jump)) * distance;
+      }
+    }
+
+    // Point the spectator camera at the player after the one followed now
+    function followNextPlayer(scene: Phaser.Scene) {
+      const playerIds = Array.from(otherPlayers?.keys() || []);
+      const index = spectatedId ? playerIds.indexOf(spectatedId) : -1;
+      followPlayer(scene, playerIds[(index + 1) % playerIds.length] || null);
+    }
+
+    function followPlayer(scene: Phaser.Scene, playerId: string | null) {
+      const target = playerId ? otherPlayers?.get(playerId) : undefined;
+      if (playerId === spectatedId && (target || !playerId)) return;
+
+      spectatedId = target ? playerId : null;
+      if (target) {
+        scene.cameras.main.startFollow(target, true, 0.08, 0.08);
+      } else {
+        scene.cameras.main.stopFollow();
+      }
+      setSpectatedAddress(target ? target.getData("address") : null);
+    }
+
     function updateLeaderboard(scene: Phaser.Scene) {
       if (!leaderboardText) return;
 
@@ -3094,8 +2992,11 @@ export default function Game({ gameData }: { gameData: any }) {
       sortedPlayers.forEach(([id, kills], index) => {
         // Highlight current player
         const isCurrentPlayer = id === socket?.id;
+        const other = otherPlayers.get(id);
         const playerName = isCurrentPlayer
           ? "YOU"
+          : other?.getData("bot")
+          ? other.getData("address")
           : `Player ${id.substring(0, 4)}`;
         const color = isCurrentPlayer ? "#FFFF00" : "#FFFFFF";
 
@@ -3103,7 +3004,11 @@ export default function Game({ gameData }: { gameData: any }) {
       });
 
       // If current player isn't in top 5, add them at the bottom
-      if (socket && !sortedPlayers.some(([id]) => id === socket.id)) {
+      if (
+        !spectating &&
+        socket?.id &&
+        !sortedPlayers.some(([id]) => id === socket.id)
+      ) {
         const myKills = playerKills.get(socket.id) || 0;
         const myRank =
           Array.from(playerKills.entries())
@@ -3132,6 +3037,7 @@ export default function Game({ gameData }: { gameData: any }) {
       if (socket) {
         socket.disconnect();
       }
+      socketRef.current = null;
       game.destroy(true);
     };
   }, []);
@@ -3139,8 +3045,119 @@ export default function Game({ gameData }: { gameData: any }) {
   return (
     <div className="game-container">
       <div ref={gameRef} className="game-canvas" />
+      {spectating && !matchResults && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-40 px-4 py-2 rounded-lg bg-black/60 text-white text-sm text-center pointer-events-none">
+          <p className="font-bold text-green-400">
+            SPECTATING ·{" "}
+            {spectatedAddress
+              ? `Following ${shortenAddress(spectatedAddress)}`
+              : "Free camera"}
+          </p>
+          <p className="text-gray-300">
+            Space: next player · C: free camera · Arrows/WASD: move camera ·
+            Esc: leave
+          </p>
+        </div>
+      )}
+      {/* Spectators can't chat, the match only takes chat from players */}
+      <div
+        className={`absolute bottom-4 left-4 z-40 w-96 ${
+          spectating ? "hidden" : ""
+        }`}
+      >
+        <ChatPanel
+          className={`max-h-64 rounded-lg ${
+            chatOpen || chatMessages.length > 0 ? "bg-black/40 p-2" : ""
+          }`}
+          messages={chatMessages}
+          address={address}
+          mutedAddresses={mutedAddresses}
+          onToggleMute={toggleMute}
+          onSend={sendChatMessage}
+          overlay
+          inputOpen={chatOpen}
+          channel="all"
+          onClose={() => setChatOpen(false)}
+        />
+      </div>
+      {afkSecondsLeft !== null && !matchResults && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 z-40 px-6 py-3 rounded-lg bg-red-900/80 text-white text-center pointer-events-none">
+          <p className="text-xl font-bold">Are you still there?</p>
+          <p>
+            Move or shoot within {Math.max(0, afkSecondsLeft)}s or you&apos;ll
+            be taken out of the match for being idle
+          </p>
+        </div>
+      )}
+      {matchResults && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70">
+          <div className="bg-gray-900/90 p-6 rounded-lg w-full max-w-2xl text-center">
+            <h2 className="text-3xl font-bold text-green-500 mb-2">
+              {matchResults.winner
+                ? matchResults.winner.toLowerCase() === address?.toLowerCase()
+                  ? "Victory!"
+                  : `${shortenAddress(matchResults.winner)} wins`
+                : "Draw"}
+            </h2>
+            <p className="text-green-300 mb-6">
+              {MATCH_END_REASONS[matchResults.reason]}
+            </p>
+            <table className="w-full text-white mb-6">
+              <thead>
+                <tr className="text-green-400 border-b border-green-800">
+                  <th className="py-2 text-left">#</th>
+                  <th className="py-2 text-left">Player</th>
+                  <th className="py-2">Kills</th>
+                  <th className="py-2">Deaths</th>
+                  <th className="py-2">Accuracy</th>
+                </tr>
+              </thead>
+              <tbody>
+                {matchResults.players.map((result, index) => (
+                  <tr
+                    key={result.address}
+                    className={
+                      result.address.toLowerCase() === address?.toLowerCase()
+                        ? "text-yellow-300"
+                        : ""
+                    }
+                  >
+                    <td className="py-1 text-left">{index + 1}</td>
+                    <td className="py-1 text-left">
+                      {shortenAddress(result.address)}
+                    </td>
+                    <td className="py-1">{result.kills}</td>
+                    <td className="py-1">{result.deaths}</td>
+                    <td className="py-1">
+                      {Math.round(result.accuracy * 100)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex gap-4 justify-center">
+              <button
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-500"
+                onClick={returnToLobby}
+              >
+                Back to lobby ({Math.max(0, lobbyCountdown)})
+              </button>
+              {/* Opens in a new tab so the way back to the lobby stays open */}
+              <a
+                className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600"
+                href={`/replay/${matchResults.matchId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                Watch replay
+              </a>
+            </div>
+          </div>
+        </div>
+      )}
       <style jsx>{`
         .game-container {
+          position: relative;
           width: 100%;
           height: 100vh;
           overflow: hidden;
@@ -0,0 +1,319 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import * as PhaserNamespace from "phaser";
+const Phaser = PhaserNamespace;
+import { WORLD_HEIGHT, WORLD_WIDTH } from "@/shared/simulation";
+import {
+  createNootAnimations,
+  createWorldTextures,
+  drawLevel,
+} from "@/utils/gameTextures";
+import ReplayPlayback from "@/utils/replayPlayback";
+import type { MatchPhase, MatchRecording } from "@/shared/protocol";
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+const FREE_CAMERA_SPEED = 600; // Pixels per second the free camera pans
+
+const PHASE_LABELS: Record<MatchPhase, string> = {
+  warmup: "Warmup",
+  live: "Live",
+  overtime: "Overtime",
+  finished: "Match over",
+};
+
+// Short form of a wallet address. Bots go by their names, which are shown
+// as they are.
+function shortenAddress(address: string) {
+  if (!address.startsWith("0x")) return address;
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// Seconds as m:ss
+function formatTime(seconds: number) {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+// Plays a match recording back in the game's renderer. The camera either
+// follows a player or is moved freely with the arrow keys or WASD.
+export default function ReplayViewer({
+  recording,
+}: {
+  recording: MatchRecording;
+}) {
+  const gameRef = useRef<HTMLDivElement>(null);
+  const playback = useMemo(() => new ReplayPlayback(recording), [recording]);
+  const names = useMemo(
+    () =>
+      new Map(
+        recording.players.map((player) => [
+          player.slot,
+          shortenAddress(player.address),
+        ])
+      ),
+    [recording]
+  );
+
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [followedSlot, setFollowedSlot] = useState<number | null>(null); // Null for the free camera
+  const [tick, setTick] = useState(0); // Tick shown, as far as React knows
+
+  // The scene reads the controls every frame
+  const controls = useRef({
+    playing: playing,
+    speed: speed,
+    followedSlot: followedSlot,
+    seekTo: null as number | null, // Tick to jump to on the next frame
+  });
+  useEffect(() => {
+    controls.current.playing = playing;
+    controls.current.speed = speed;
+    controls.current.followedSlot = followedSlot;
+  }, [playing, speed, followedSlot]);
+
+  useEffect(() => {
+    if (!gameRef.current) return;
+
+    let position = 0; // Playback position in ticks, between ticks while playing
+    const playerSprites = new Map<
+      number,
+      { sprite: Phaser.GameObjects.Sprite; label: Phaser.GameObjects.Text }
+    >();
+    const bulletSprites = new Map<number, Phaser.GameObjects.Image>();
+    let cameraKeys: Record<string, Phaser.Input.Keyboard.Key | undefined>;
+
+    function preload(this: Phaser.Scene) {
+      this.load.on("complete", () => createWorldTextures(this));
+    }
+
+    function create(this: Phaser.Scene) {
+      // The level is only drawn, the recording says where everyone goes
+      drawLevel(this);
+
+      createNootAnimations(this);
+
+      this.cameras.main.setBounds(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+      const keyboard = this.input.keyboard;
+      const KeyCodes = Phaser.Input.Keyboard.KeyCodes;
+      cameraKeys = {
+        left: keyboard?.addKey(KeyCodes.LEFT),
+        right: keyboard?.addKey(KeyCodes.RIGHT),
+        up: keyboard?.addKey(KeyCodes.UP),
+        down: keyboard?.addKey(KeyCodes.DOWN),
+        a: keyboard?.addKey(KeyCodes.A),
+        d: keyboard?.addKey(KeyCodes.D),
+        w: keyboard?.addKey(KeyCodes.W),
+        s: keyboard?.addKey(KeyCodes.S),
+      };
+    }
+
+    function update(this: Phaser.Scene, time: number, delta: number) {
+      const current = controls.current;
+
+      if (current.seekTo !== null) {
+        position = current.seekTo;
+        current.seekTo = null;
+      } else if (current.playing) {
+        position += (delta / 1000) * recording.tickRate * current.speed;
+      }
+      if (position >= recording.endTick) {
+        position = recording.endTick;
+        if (current.playing) setPlaying(false);
+      }
+
+      playback.seek(Math.floor(position));
+      setTick(playback.tick);
+
+      // Positions are blended from the tick before towards the last tick
+      const blend = position - Math.floor(position);
+      drawPlayers(this, blend);
+      drawBullets(this, blend);
+      moveCamera(this, delta);
+    }
+
+    function drawPlayers(scene: Phaser.Scene, blend: number) {
+      playback.players.forEach((player, slot) => {
+        let drawn = playerSprites.get(slot);
+        if (!drawn) {
+          drawn = {
+            sprite: scene.add.sprite(player.x, player.y, "noot_idle"),
+            label: scene.add
+              .text(0, 0, "", {
+                fontSize: "14px",
+                color: "#ffffff",
+                backgroundColor: "#000000",
+                padding: { x: 3, y: 2 },
+              })
+              .setOrigin(0.5, 0.5),
+          };
+          playerSprites.set(slot, drawn);
+        }
+
+        const x = player.previousX + (player.x - player.previousX) * blend;
+        const y = player.previousY + (player.y - player.previousY) * blend;
+        drawn.sprite
+          .setPosition(x, y)
+          .setFlipX(player.flipX)
+          .setVisible(!player.isDead);
+        drawn.sprite.anims.play(player.animation, true);
+        drawn.label
+          .setText(`${names.get(slot)} [${player.health}]`)
+          .setPosition(x, y - 70)
+          .setVisible(!player.isDead);
+      });
+
+      playerSprites.forEach((drawn, slot) => {
+        if (playback.players.has(slot)) return;
+        drawn.sprite.destroy();
+        drawn.label.destroy();
+        playerSprites.delete(slot);
+      });
+    }
+
+    function drawBullets(scene: Phaser.Scene, blend: number) {
+      playback.bullets.forEach((bullet, id) => {
+        let sprite = bulletSprites.get(id);
+        if (!sprite) {
+          sprite = scene.add.image(bullet.x, bullet.y, "bullet");
+          bulletSprites.set(id, sprite);
+        }
+        sprite.setPosition(
+          bullet.previousX + (bullet.x - bullet.previousX) * blend,
+          bullet.y
+        );
+      });
+
+      bulletSprites.forEach((sprite, id) => {
+        if (playback.bullets.has(id)) return;
+        sprite.destroy();
+        bulletSprites.delete(id);
+      });
+    }
+
+    function moveCamera(scene: Phaser.Scene, delta: number) {
+      const camera = scene.cameras.main;
+      const followed = controls.current.followedSlot;
+
+      if (followed !== null) {
+        const drawn = playerSprites.get(followed);
+        if (drawn) camera.centerOn(drawn.sprite.x, drawn.sprite.y);
+        return;
+      }
+
+      const held = (...keys: string[]) =>
+        keys.some((key) => cameraKeys[key]?.isDown);
+      const distance = (FREE_CAMERA_SPEED * delta) / 1000;
+      camera.scrollX +=
+        (Number(held("right", "d")) - Number(held("left", "a"))) * distance;
+      camera.scrollY +=
+        (Number(held("down", "s")) - Number(held("up", "w"))) * distance;
+    }
+
+    const game = new Phaser.Game({
+      type: Phaser.AUTO,
+      width: window.innerWidth,
+      height: window.innerHeight,
+      parent: gameRef.current,
+      backgroundColor: "#87CEEB", // Sky blue background
+      scale: {
+        mode: Phaser.Scale.RESIZE,
+        autoCenter: Phaser.Scale.CENTER_BOTH,
+      },
+      scene: {
+        preload: preload,
+        create: create,
+        update: update,
+      },
+    });
+
+    return () => game.destroy(true);
+  }, [recording, playback, names]);
+
+  const seconds = tick / recording.tickRate;
+  const standings = Array.from(playback.players.values()).sort(
+    (a, b) => b.kills - a.kills || a.deaths - b.deaths
+  );
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden">
+      <div ref={gameRef} className="h-full w-full" />
+
+      {/* Scores as of the tick shown */}
+      <div className="absolute top-4 right-4 bg-black/60 p-3 rounded-lg text-white text-sm min-w-48">
+        <div className="text-green-400 font-bold mb-2">
+          {PHASE_LABELS[playback.phase]}
+        </div>
+        {standings.map((player) => (
+          <div key={player.slot} className="flex justify-between gap-4">
+            <span>{names.get(player.slot)}</span>
+            <span>
+              {player.kills} / {player.deaths}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="absolute bottom-0 inset-x-0 bg-black/70 p-3 flex items-center gap-4 text-white">
+        <button
+          className="px-3 py-1 bg-green-600 rounded-md hover:bg-green-500 w-20"
+          onClick={() => {
+            // Playing from the end starts over
+            if (!playing && tick >= recording.endTick) {
+              controls.current.seekTo = 0;
+            }
+            setPlaying(!playing);
+          }}
+        >
+          {playing ? "Pause" : "Play"}
+        </button>
+
+        <span className="text-sm tabular-nums">
+          {formatTime(seconds)} /{" "}
+          {formatTime(recording.endTick / recording.tickRate)}
+        </span>
+
+        <input
+          type="range"
+          className="flex-1"
+          min={0}
+          max={recording.endTick}
+          value={tick}
+          onChange={(event) => {
+            controls.current.seekTo = Number(event.target.value);
+          }}
+        />
+
+        <select
+          className="bg-gray-800 rounded-md px-2 py-1"
+          value={speed}
+          onChange={(event) => setSpeed(Number(event.target.value))}
+        >
+          {PLAYBACK_SPEEDS.map((option) => (
+            <option key={option} value={option}>
+              {option}x
+            </option>
+          ))}
+        </select>
+
+        <select
+          className="bg-gray-800 rounded-md px-2 py-1"
+          value={followedSlot === null ? "free" : String(followedSlot)}
+          onChange={(event) =>
+            setFollowedSlot(
+              event.target.value === "free" ? null : Number(event.target.value)
+            )
+          }
+        >
+          <option value="free">Free camera</option>
+          {recording.players.map((player) => (
+            <option key={player.slot} value={player.slot}>
+              Follow {names.get(player.slot)}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
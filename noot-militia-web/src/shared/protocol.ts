@@ -0,0 +1,541 @@
+// Network protocol between the game server and its clients.
+//
+// Every socket.io event the server and clients exchange is listed here with
+// its payload. The client sockets in MatchingService and Game.tsx are typed
+// with these maps, and server.js checks against them with `npm run
+// typecheck:server`, so an event renamed on one side no longer compiles.
+// The server also validates every incoming payload at runtime (see
+// server/validation.js), since clients can send anything.
+
+// ===============================================
+// MATCHING
+// ===============================================
+
+export interface LobbyPlayer {
+  id: string;
+  address: string;
+  rating: number; // Elo rating used for matchmaking
+  ready: boolean;
+  bot: boolean; // Server-run player filling an empty slot, `address` is its name
+}
+
+export type BotDifficulty = "easy" | "normal" | "hard";
+
+export type MapName = "arena"; // See MAPS in shared/simulation.js
+
+export type LobbyState = "waiting" | "starting" | "active";
+
+export interface SignInChallengePayload {
+  nonce: string; // Goes into the sign-in message, see shared/signIn.js
+  expiresAt: number; // Server time the nonce must be used by
+}
+
+export interface SignInFailedPayload {
+  reason: string;
+}
+
+export interface SignedInPayload {
+  session: string; // Token to join matching with again instead of signing
+  expiresAt: number; // Server time the token stops working
+}
+
+// Either a signed sign-in message or the session token of an earlier sign-in
+export interface JoinMatchingPayload {
+  address: string;
+  message?: string; // Sign-in message with the nonce from sign-in-challenge
+  signature?: string; // Wallet signature of `message`
+  session?: string; // Token from signed-in
+  lobbyId?: string; // Lobby to go back to after a match, if it has room
+  code?: string; // Invite code of a private lobby to join instead
+}
+
+export interface JoinPrivateLobbyPayload {
+  code: string;
+}
+
+export interface LobbyJoinFailedPayload {
+  reason: string;
+}
+
+// Chosen by the lobby host. The match is played to the time and kill limits.
+export interface LobbySettings {
+  maxPlayers: number;
+  readyCheckTimeout: number; // Milliseconds players get to ready up once someone is ready, 0 for no check
+  timeLimit: number; // Milliseconds of live play, 0 for no limit
+  killLimit: number; // Kills that win the match, 0 for no limit
+  botDifficulty: BotDifficulty | "off"; // Bots filling the lobby after a wait, "off" for none
+  map: MapName;
+  friendlyFire: boolean; // Always on while matches are free-for-all
+}
+
+export interface MatchingJoinedPayload {
+  success: boolean;
+  lobbyId: string;
+  players: LobbyPlayer[];
+  state: LobbyState;
+  code: string | null; // Invite code, for private lobbies
+  hostId: string | null; // Player ID of the lobby host
+  locked: boolean; // Locked lobbies take no new players
+  settings: LobbySettings;
+  readyCheckTimeLeft: number | null; // Milliseconds left to ready up, null if no ready check is running
+  estimatedWait: number; // Typical milliseconds until a game starts
+}
+
+export interface LobbyUpdatePayload {
+  lobbyId: string;
+  players: LobbyPlayer[];
+  state: LobbyState;
+  code: string | null;
+  hostId: string | null;
+  locked: boolean;
+  settings: LobbySettings;
+  readyCheckTimeLeft: number | null;
+  estimatedWait: number;
+}
+
+// Host actions on another player in the lobby
+export interface LobbyPlayerActionPayload {
+  playerId: string;
+}
+
+export interface SetLobbyLockedPayload {
+  locked: boolean;
+}
+
+// Settings left out stay as they are
+export type UpdateLobbySettingsPayload = Partial<LobbySettings>;
+
+// Sent to players who didn't ready up in time
+export interface ReadyCheckFailedPayload {
+  reason: string;
+}
+
+export interface LobbyActionFailedPayload {
+  reason: string;
+}
+
+export interface PartyMember {
+  address: string;
+  online: boolean; // False while they are away, e.g. playing a match
+}
+
+export interface PartyData {
+  partyId: string;
+  code: string; // Others join the party with this code
+  leader: string; // Address of the leader, who queues the party
+  members: PartyMember[];
+}
+
+export interface PartyUpdatePayload {
+  party: PartyData | null; // Null once we are no longer in a party
+}
+
+export interface InviteToPartyPayload {
+  address: string;
+}
+
+export interface PartyInvitePayload {
+  code: string;
+  from: string; // Address of the leader who invited us
+}
+
+export interface JoinPartyPayload {
+  code: string;
+}
+
+export interface PartyActionFailedPayload {
+  reason: string;
+}
+
+export interface LobbyChatPayload {
+  text: string;
+}
+
+// Stop or resume receiving a player's chat messages on this socket
+export interface MutePlayerPayload {
+  address: string;
+  muted: boolean;
+}
+
+export interface PlayerReadyPayload {
+  ready: boolean;
+}
+
+export interface GameCountdownPayload {
+  countdown: number;
+}
+
+export interface GamePlayerData {
+  id: string;
+  address: string;
+  spawnPointIndex: number;
+}
+
+export interface GameStartPayload {
+  lobbyId: string;
+  players: GamePlayerData[];
+  sessionToken: string; // Lets this player rejoin the match after a disconnect
+}
+
+// ===============================================
+// MATCH
+// ===============================================
+
+export interface JoinMatchPayload {
+  lobbyId: string;
+  address: string;
+  sessionToken: string;
+}
+
+// Watch a match without playing. Private matches need their lobby's invite
+// code, or the session token of one of their players.
+export interface SpectateMatchPayload {
+  lobbyId?: string;
+  code?: string;
+  sessionToken?: string;
+}
+
+// Sent once a socket is watching, after spectate-match or when an idle
+// player was moved to the spectators
+export interface SpectatingPayload {
+  reason: string | null; // Why a player was moved, null for spectate-match
+}
+
+// A public match that can be watched, as listed by GET /api/matches
+export interface LiveMatchSummary {
+  lobbyId: string;
+  players: { address: string; kills: number; bot: boolean }[]; // Most kills first
+  phase: MatchPhase;
+  timeLeft: number | null; // Milliseconds left in the phase, null without a limit
+  spectators: number;
+}
+
+export interface MatchJoinFailedPayload {
+  reason: string;
+}
+
+export interface KickedPayload {
+  reason: string;
+}
+
+// Sent to a player who stopped sending input, before they're moved to the
+// spectators or kicked
+export interface AfkWarningPayload {
+  timeLeft: number | null; // Milliseconds until then, null once they're active again
+}
+
+export type MatchPhase = "warmup" | "live" | "overtime" | "finished";
+
+export interface MatchPhasePayload {
+  phase: MatchPhase;
+  timeLeft: number | null; // Milliseconds until the phase ends, null if it has no limit
+}
+
+export type MatchEndReason = "kill-limit" | "time-limit" | "overtime";
+
+// Matches are free-for-all, so there is no team channel until teams exist
+export type MatchChatChannel = "all";
+
+export interface MatchChatPayload {
+  text: string;
+  channel: MatchChatChannel;
+}
+
+export interface ChatMessagePayload {
+  channel: "lobby" | MatchChatChannel;
+  playerId: string;
+  address: string;
+  text: string; // Filtered by the server
+  time: number;
+}
+
+export interface MatchPlayerResult {
+  playerId: string;
+  address: string;
+  kills: number;
+  deaths: number;
+  shotsFired: number;
+  shotsHit: number;
+  accuracy: number; // Share of shots that hit, from 0 to 1
+  bot: boolean;
+}
+
+export interface MatchEndedPayload {
+  matchId: string; // ID of the match's recording, see /api/replays
+  reason: MatchEndReason;
+  winner: string | null; // Address of the winner, null for a draw
+  players: MatchPlayerResult[]; // Best first
+}
+
+// Full state of a player, sent when they join or someone joins
+export interface MatchPlayer {
+  playerId: string;
+  address: string;
+  slot: number; // Compact player ID used in binary snapshots
+  x: number;
+  y: number;
+  flipX: boolean;
+  health: number;
+  isDead: boolean;
+  kills: number;
+  animation: string;
+  bot: boolean; // Played by the server
+}
+
+// Keys a player held during one server tick. The server runs the movement
+// (see shared/simulation.js); clients never send positions or health.
+export interface PlayerInputPayload {
+  seq: number; // Prediction sequence number, echoed back as `ack`
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  fire: boolean;
+  aim: number; // Radians, 0 is right; bullets fly horizontally on that side
+  bulletId?: string; // ID of the bullet the client drew for this shot, the server names it `<playerId>:<bulletId>`
+}
+
+export interface SnapshotAckPayload {
+  tick: number;
+}
+
+export interface LatencyPayload {
+  id: number; // Ping the pong answers, the server times the round trip
+}
+
+export interface PlayerSnapshot {
+  playerId: string;
+  x: number;
+  y: number;
+  flipX: boolean;
+  health: number;
+  isDead: boolean;
+  respawning: boolean;
+  animation: string;
+  ack: number; // Last movement sequence number the server applied
+  // Movement state inputs after `ack` are replayed from by the client
+  velocityX: number;
+  velocityY: number;
+  onGround: boolean;
+}
+
+export interface BulletSnapshot {
+  bulletId: string;
+  x: number;
+  y: number;
+}
+
+export interface WorldSnapshot {
+  tick: number;
+  time: number;
+  players: PlayerSnapshot[];
+  bullets: BulletSnapshot[];
+  scores: Record<string, number>;
+}
+
+export interface BulletCreatedPayload {
+  bulletId: string;
+  x: number;
+  y: number;
+  velocityX: number;
+  playerId: string;
+}
+
+export type BulletDestroyedReason = "expired" | "rock" | "platform" | "player";
+
+export interface BulletDestroyedPayload {
+  bulletId: string;
+  x: number;
+  y: number;
+  reason: BulletDestroyedReason;
+  playerId: string | null; // Player hit, if any
+}
+
+export interface PlayerDamagedPayload {
+  playerId: string;
+  health: number;
+  shooterId: string;
+}
+
+export interface PlayerDiedPayload {
+  playerId: string;
+  killedBy: string | null;
+  time: number; // Server time of the death
+}
+
+export interface PlayerRespawnedPayload {
+  playerId: string;
+  x: number;
+  y: number;
+}
+
+// ===============================================
+// REPLAYS
+// ===============================================
+
+// Recording of a match as written by server/replays.js and served from
+// /api/replays/<matchId>. Players are referred to by roster slot, which
+// unlike socket IDs stays the same across reconnects.
+export interface MatchRecording {
+  version: number; // Format version, see REPLAY_VERSION
+  matchId: string;
+  lobbyId: string;
+  startedAt: number;
+  tickRate: number; // Simulation ticks per second
+  settings: LobbySettings;
+  endTick: number; // Last tick the match ran
+  players: ReplayPlayer[];
+  events: ReplayEvent[]; // Oldest first
+}
+
+export interface ReplayPlayer {
+  slot: number;
+  address: string;
+  bot: boolean;
+}
+
+// State of a player as of a join or keyframe
+export interface ReplayPlayerState {
+  slot: number;
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  onGround: boolean;
+  flipX: boolean;
+  health: number;
+  isDead: boolean;
+  kills: number;
+  deaths: number;
+}
+
+export interface ReplayBulletState {
+  bullet: number; // Network ID of the bullet
+  slot: number; // Shooter
+  x: number;
+  y: number;
+  velocityX: number;
+}
+
+interface ReplayEventBase {
+  tick: number; // Tick the event happened in
+  time: number; // Milliseconds since the match started
+}
+
+// Keys a player moves with, as far as the recording is concerned
+export interface ReplayKeys {
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  flipX: boolean; // Facing, the only part of the aim movement uses
+}
+
+// Keys applied to a player from this tick on, until their next input
+export interface ReplayInputEvent extends ReplayEventBase, ReplayKeys {
+  type: "input";
+  slot: number;
+}
+
+export interface ReplayKeyframeEvent extends ReplayEventBase {
+  type: "keyframe";
+  phase: MatchPhase;
+  players: (ReplayPlayerState & { keys: ReplayKeys | null })[]; // Everyone in the match, with the keys they last moved with
+  bullets: ReplayBulletState[]; // Bullets in flight
+}
+
+export type ReplayEvent =
+  | ReplayInputEvent
+  | ReplayKeyframeEvent
+  | (ReplayEventBase & { type: "join" } & ReplayPlayerState)
+  | (ReplayEventBase & { type: "leave"; slot: number })
+  | (ReplayEventBase & { type: "shot" } & ReplayBulletState)
+  | (ReplayEventBase & {
+      type: "bullet-end";
+      bullet: number;
+      x: number;
+      y: number;
+      reason: BulletDestroyedReason;
+    })
+  | (ReplayEventBase & {
+      type: "damage";
+      slot: number;
+      shooter: number | null; // Slot of the shooter, if still in the match
+      health: number;
+    })
+  | (ReplayEventBase & { type: "death"; slot: number; killer: number | null })
+  | (ReplayEventBase & { type: "respawn"; slot: number; x: number; y: number })
+  | (ReplayEventBase & { type: "phase"; phase: MatchPhase })
+  | (ReplayEventBase & { type: "end" } & MatchEndedPayload);
+
+// ===============================================
+// EVENT MAPS
+// ===============================================
+
+export interface ServerToClientEvents {
+  // Matching
+  "sign-in-challenge": (data: SignInChallengePayload) => void;
+  "sign-in-failed": (data: SignInFailedPayload) => void;
+  "signed-in": (data: SignedInPayload) => void;
+  "matching-joined": (data: MatchingJoinedPayload) => void;
+  "lobby-join-failed": (data: LobbyJoinFailedPayload) => void;
+  "lobby-update": (data: LobbyUpdatePayload) => void;
+  "lobby-action-failed": (data: LobbyActionFailedPayload) => void;
+  "ready-check-failed": (data: ReadyCheckFailedPayload) => void;
+  "chat-message": (data: ChatMessagePayload) => void; // Lobby and match chat
+  "party-update": (data: PartyUpdatePayload) => void;
+  "party-invite": (data: PartyInvitePayload) => void;
+  "party-action-failed": (data: PartyActionFailedPayload) => void;
+  "game-countdown": (data: GameCountdownPayload) => void;
+  "countdown-cancelled": () => void;
+  "game-start": (data: GameStartPayload) => void;
+  "navigate-to-game": () => void;
+
+  // Match
+  "match-join-failed": (data: MatchJoinFailedPayload) => void;
+  currentPlayers: (players: Record<string, MatchPlayer>) => void;
+  newPlayer: (player: MatchPlayer) => void;
+  playerDisconnected: (playerId: string) => void;
+  kicked: (data: KickedPayload) => void; // Also sent to players kicked from a lobby
+  "afk-warning": (data: AfkWarningPayload) => void;
+  spectating: (data: SpectatingPayload) => void;
+  "match-phase": (data: MatchPhasePayload) => void;
+  "match-ended": (data: MatchEndedPayload) => void;
+  snapshot: (snapshot: WorldSnapshot) => void; // SNAPSHOT_ENCODING=json only
+  snapshotData: (data: ArrayBuffer) => void; // See shared/snapshotCodec.js
+  latencyPing: (data: LatencyPayload) => void;
+  bulletCreated: (data: BulletCreatedPayload) => void;
+  bulletDestroyed: (data: BulletDestroyedPayload) => void;
+  playerDamaged: (data: PlayerDamagedPayload) => void;
+  playerDied: (data: PlayerDiedPayload) => void;
+  playerRespawned: (data: PlayerRespawnedPayload) => void;
+}
+
+export interface ClientToServerEvents {
+  // Matching
+  "request-sign-in": () => void;
+  "join-matching": (data: JoinMatchingPayload) => void;
+  "create-private-lobby": () => void;
+  "join-private-lobby": (data: JoinPrivateLobbyPayload) => void;
+  "player-ready": (data: PlayerReadyPayload) => void;
+  "start-game": () => void; // Host only
+  "kick-lobby-player": (data: LobbyPlayerActionPayload) => void; // Host only
+  "transfer-host": (data: LobbyPlayerActionPayload) => void; // Host only
+  "set-lobby-locked": (data: SetLobbyLockedPayload) => void; // Host only
+  "update-lobby-settings": (data: UpdateLobbySettingsPayload) => void; // Host only
+  "leave-matching": () => void;
+  "create-party": () => void;
+  "invite-to-party": (data: InviteToPartyPayload) => void; // Leader only
+  "join-party": (data: JoinPartyPayload) => void; // Also accepts an invite
+  "leave-party": () => void;
+  "queue-party": () => void; // Leader only
+  "lobby-chat": (data: LobbyChatPayload) => void;
+  "mute-player": (data: MutePlayerPayload) => void; // Lobby and match sockets
+
+  // Match
+  "join-match": (data: JoinMatchPayload) => void;
+  "spectate-match": (data: SpectateMatchPayload) => void;
+  playerInput: (data: PlayerInputPayload) => void;
+  latencyPong: (data: LatencyPayload) => void;
+  snapshotAck: (data: SnapshotAckPayload) => void;
+  playerRespawned: () => void;
+  "match-chat": (data: MatchChatPayload) => void;
+}
@@ -0,0 +1,95 @@
+// @ts-check
+
+// Sign-in messages for the matching handshake, shared by the server (which
+// requires this file directly) and the matching client.
+//
+// The server hands every matching socket a one-time nonce. The client puts it
+// in an EIP-4361 ("Sign-In with Ethereum") message, has the wallet sign it and
+// sends message and signature along with join-matching. The server parses the
+// message back, checks the nonce and recovers the signer from the signature.
+
+/**
+ * @typedef {object} SignInFields
+ * @property {string} domain Host of the site asking for the signature
+ * @property {string} address Wallet address signing in
+ * @property {string} uri Origin of the site asking for the signature
+ * @property {number} chainId
+ * @property {string} nonce Nonce the server issued for this socket
+ * @property {string} issuedAt ISO 8601 time the message was created
+ * @property {string} expirationTime ISO 8601 time the signature stops working
+ */
+
+const STATEMENT = "Sign in to Noot Militia matchmaking.";
+const VERSION = "1";
+
+/**
+ * Build the message a wallet signs to sign in
+ * @param {SignInFields} fields
+ * @returns {string}
+ */
+function createSignInMessage(fields) {
+  return [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    "",
+    STATEMENT,
+    "",
+    `URI: ${fields.uri}`,
+    `Version: ${VERSION}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    `Expiration Time: ${fields.expirationTime}`,
+  ].join("\n");
+}
+
+/**
+ * Read the fields back out of a signed message
+ * @param {string} message
+ * @returns {SignInFields | null} Null if the message isn't one of ours
+ */
+function parseSignInMessage(message) {
+  const lines = message.split("\n");
+  const header = lines[0].match(
+    /^(\S+) wants you to sign in with your Ethereum account:$/
+  );
+  if (!header || lines.length !== 11 || lines[3] !== STATEMENT) return null;
+
+  /** @type {Record<string, string>} */
+  const values = {};
+  for (const line of lines.slice(5)) {
+    const separator = line.indexOf(": ");
+    if (separator === -1) return null;
+    values[line.slice(0, separator)] = line.slice(separator + 2);
+  }
+  if (values["Version"] !== VERSION) return null;
+
+  const chainId = Number(values["Chain ID"]);
+  if (!Number.isInteger(chainId)) return null;
+
+  return {
+    domain: header[1],
+    address: lines[1],
+    uri: values["URI"],
+    chainId: chainId,
+    nonce: values["Nonce"],
+    issuedAt: values["Issued At"],
+    expirationTime: values["Expiration Time"],
+  };
+}
+
+/**
+ * Key a wallet address is stored and compared under. Addresses are compared
+ * case-insensitively.
+ * @param {unknown} address
+ * @returns {string} Empty for anything that isn't a string
+ */
+function normalizeAddress(address) {
+  return typeof address === "string" ? address.toLowerCase() : "";
+}
+
+module.exports = {
+  createSignInMessage,
+  parseSignInMessage,
+  normalizeAddress,
+};
@@ -0,0 +1,507 @@
+// @ts-check
+
+// Headless game simulation, shared by the server (which requires this file
+// directly) and the game client.
+//
+// Everything here is plain data and functions without Phaser, so the match
+// server can run it and Game.tsx can use it to predict the local player:
+// both sides step the same input through the same code and agree on where
+// the player ends up. It covers the tick rate, the arena layout, player
+// movement with collisions against platforms and rocks, bullets and damage.
+//
+// Boxes are axis-aligned: { x, y, width, height } with x/y at the top-left
+// corner. Player and bullet positions are centers.
+
+/**
+ * @typedef {import("./protocol").PlayerInputPayload} PlayerInput
+ * @typedef {import("./protocol").BulletDestroyedReason} BulletStopReason
+ */
+
+/**
+ * @typedef {object} Box
+ * @property {number} x
+ * @property {number} y
+ * @property {number} width
+ * @property {number} height
+ */
+
+/**
+ * @typedef {object} PhysicsState
+ * @property {number} velocityX
+ * @property {number} velocityY
+ * @property {boolean} onGround
+ */
+
+/**
+ * The parts of a player the movement simulation reads and writes
+ * @typedef {object} SimulatedPlayer
+ * @property {number} x
+ * @property {number} y
+ * @property {boolean} flipX
+ * @property {string} animation
+ * @property {PhysicsState} physics
+ */
+
+/**
+ * @typedef {object} SimulatedBullet
+ * @property {number} x
+ * @property {number} y
+ * @property {number} velocityX
+ * @property {number} expiresAt Time the bullet expires at, in milliseconds
+ */
+
+/**
+ * The parts of a player damage rules read and write
+ * @typedef {object} DamageTarget
+ * @property {number} health
+ * @property {boolean} isDead
+ * @property {number} invulnerableUntil
+ */
+
+// ===============================================
+// TIMING
+// ===============================================
+
+const TICK_RATE = 30; // Match server ticks (and client input commands) per second
+const TICK_DELTA = 1 / TICK_RATE; // Seconds simulated by each tick
+
+// Clients draw remote players this many milliseconds in the past so there is
+// usually a later snapshot to interpolate towards. The server rewinds shot
+// targets by it too.
+const INTERPOLATION_DELAY = 100;
+
+// ===============================================
+// WORLD
+// ===============================================
+
+const WORLD_WIDTH = 3200;
+const WORLD_HEIGHT = 800;
+const GROUND_HEIGHT = 64;
+const GROUND_TILE_SIZE = 64; // Size of the "ground" texture
+const ROCK_SIZE = 32; // Size of the "rock" texture
+
+// Maps a lobby can pick. The arena laid out below is the only one so far.
+const MAPS = ["arena"];
+
+// Platforms use the "ground" texture centered at (x, y), scaled by
+// (scaleX, 0.5)
+const PLATFORM_LAYOUT = [
+  // Left side platforms
+  { x: 300, y: WORLD_HEIGHT - 150, scaleX: 3 },
+  { x: 500, y: WORLD_HEIGHT - 280, scaleX: 2 },
+  // Middle platforms
+  { x: WORLD_WIDTH / 2 - 150, y: WORLD_HEIGHT - 150, scaleX: 4 },
+  { x: WORLD_WIDTH / 2 + 80, y: WORLD_HEIGHT - 280, scaleX: 3 },
+  // Right side platforms
+  { x: WORLD_WIDTH - 300, y: WORLD_HEIGHT - 150, scaleX: 3 },
+  { x: WORLD_WIDTH - 500, y: WORLD_HEIGHT - 280, scaleX: 2 },
+];
+
+// Rocks use the "rock" texture centered at (x, y) with an 80% x 90% hitbox
+const ROCK_LAYOUT = [
+  // Rocks on left platforms
+  { x: 250, y: WORLD_HEIGHT - 180, scale: 1.2 },
+  { x: 350, y: WORLD_HEIGHT - 180, scale: 1 },
+  { x: 500, y: WORLD_HEIGHT - 310, scale: 1.3 },
+  // Rocks on middle platforms
+  { x: WORLD_WIDTH / 2 - 200, y: WORLD_HEIGHT - 180, scale: 1.4 },
+  { x: WORLD_WIDTH / 2 - 50, y: WORLD_HEIGHT - 180, scale: 1 },
+  { x: WORLD_WIDTH / 2 + 30, y: WORLD_HEIGHT - 310, scale: 1.2 },
+  { x: WORLD_WIDTH / 2 + 100, y: WORLD_HEIGHT - 310, scale: 1 },
+  // Rocks on right platforms
+  { x: WORLD_WIDTH - 350, y: WORLD_HEIGHT - 180, scale: 1.1 },
+  { x: WORLD_WIDTH - 250, y: WORLD_HEIGHT - 180, scale: 1.3 },
+  { x: WORLD_WIDTH - 480, y: WORLD_HEIGHT - 310, scale: 1.2 },
+];
+
+// Ground tiles cover a little more than the world width
+const GROUND_TILES = Math.ceil(WORLD_WIDTH / GROUND_TILE_SIZE) + 4;
+
+/** @type {Box[]} */
+const PLATFORMS = [
+  {
+    x: 0,
+    y: WORLD_HEIGHT - GROUND_HEIGHT,
+    width: GROUND_TILES * GROUND_TILE_SIZE,
+    height: GROUND_HEIGHT,
+  },
+  ...PLATFORM_LAYOUT.map((platform) =>
+    centeredBox(
+      platform.x,
+      platform.y,
+      GROUND_TILE_SIZE * platform.scaleX,
+      GROUND_TILE_SIZE * 0.5
+    )
+  ),
+];
+
+/** @type {Box[]} */
+const ROCKS = ROCK_LAYOUT.map((rock) =>
+  centeredBox(
+    rock.x,
+    rock.y,
+    ROCK_SIZE * rock.scale * 0.8,
+    ROCK_SIZE * rock.scale * 0.9
+  )
+);
+
+/**
+ * @param {number} x
+ * @param {number} y
+ * @param {number} width
+ * @param {number} height
+ * @returns {Box}
+ */
+function centeredBox(x, y, width, height) {
+  return { x: x - width / 2, y: y - height / 2, width, height };
+}
+
+/**
+ * @param {Box} a
+ * @param {Box} b
+ */
+function boxesOverlap(a, b) {
+  return (
+    a.x < b.x + b.width &&
+    a.x + a.width > b.x &&
+    a.y < b.y + b.height &&
+    a.y + a.height > b.y
+  );
+}
+
+// ===============================================
+// PLAYERS
+// ===============================================
+
+const PLAYER_SPEED = 160; // Horizontal velocity while walking
+const JUMP_VELOCITY = 600; // Upward velocity of a jump
+const GRAVITY = 600;
+
+// Physics body of the 64x115 "noot" texture, centered on the player position
+const PLAYER_BODY = { width: 64, height: 115 };
+
+// Bullet hitbox relative to the player position. The noot texture draws the
+// character in the upper half of its frame.
+const PLAYER_HITBOX = { offsetX: -24, offsetY: -58, width: 48, height: 54 };
+
+// Players spawn standing on the ground
+const SPAWN_Y = WORLD_HEIGHT - GROUND_HEIGHT - PLAYER_BODY.height / 2;
+const SPAWN_POINTS = [
+  { x: 200, y: SPAWN_Y }, // Left side spawn
+  { x: WORLD_WIDTH - 200, y: SPAWN_Y }, // Right side spawn
+];
+
+/**
+ * Input applied when a player has not sent anything yet
+ * @type {PlayerInput}
+ */
+const IDLE_INPUT = {
+  seq: 0,
+  left: false,
+  right: false,
+  jump: false,
+  fire: false,
+  aim: 0,
+};
+
+/** @returns {PhysicsState} */
+function createPhysicsState() {
+  return {
+    velocityX: 0,
+    velocityY: 0,
+    onGround: false,
+  };
+}
+
+/**
+ * Advance a player by `dt` seconds with the keys in `input`: walking,
+ * jumping off the ground, gravity, and collisions with the world bounds,
+ * platforms and rocks. Rocks can be jumped through from below.
+ * @param {SimulatedPlayer} player
+ * @param {Pick<PlayerInput, "left" | "right" | "jump" | "aim">} input
+ * @param {number} dt
+ */
+function stepPlayer(player, input, dt) {
+  const physics = player.physics;
+
+  // Facing follows the aim, bullets fly horizontally on that side
+  player.flipX = Math.cos(input.aim) < 0;
+
+  if (input.left && !input.right) {
+    physics.velocityX = -PLAYER_SPEED;
+  } else if (input.right && !input.left) {
+    physics.velocityX = PLAYER_SPEED;
+  } else {
+    physics.velocityX = 0;
+  }
+
+  if (input.jump && physics.onGround) {
+    physics.velocityY = -JUMP_VELOCITY;
+  }
+  physics.velocityY += GRAVITY * dt;
+
+  moveHorizontally(player, physics.velocityX * dt);
+  physics.onGround = moveVertically(player, physics.velocityY * dt);
+
+  if (!physics.onGround) {
+    player.animation = "noot_jump";
+  } else if (physics.velocityX !== 0) {
+    player.animation = "noot_walk";
+  } else {
+    player.animation = "noot_idle";
+  }
+}
+
+/**
+ * Move along x, stopping at the side of anything solid
+ * @param {SimulatedPlayer} player
+ * @param {number} distance
+ */
+function moveHorizontally(player, distance) {
+  if (distance === 0) return;
+
+  const halfWidth = PLAYER_BODY.width / 2;
+  const before = bodyBox(player.x, player.y);
+  player.x += distance;
+
+  PLATFORMS.concat(ROCKS).forEach((solid) => {
+    // Only block boxes entered from the side during this move
+    if (boxesOverlap(before, solid)) return;
+    if (!boxesOverlap(bodyBox(player.x, player.y), solid)) return;
+
+    player.x =
+      distance > 0 ? solid.x - halfWidth : solid.x + solid.width + halfWidth;
+  });
+
+  player.x = clamp(player.x, halfWidth, WORLD_WIDTH - halfWidth);
+}
+
+/**
+ * Move along y, landing on platforms and rocks
+ * @param {SimulatedPlayer} player
+ * @param {number} distance
+ * @returns {boolean} True if the player ends up standing on something
+ */
+function moveVertically(player, distance) {
+  const physics = player.physics;
+  const halfHeight = PLAYER_BODY.height / 2;
+  let grounded = false;
+
+  player.y += distance;
+
+  PLATFORMS.concat(ROCKS).forEach((solid) => {
+    if (!boxesOverlap(bodyBox(player.x, player.y), solid)) return;
+
+    if (distance >= 0 && player.y < solid.y) {
+      // Landed on top
+      player.y = solid.y - halfHeight;
+      physics.velocityY = 0;
+      grounded = true;
+    } else if (
+      distance < 0 &&
+      player.y > solid.y + solid.height &&
+      PLATFORMS.includes(solid)
+    ) {
+      // Hit our head on the underside of a platform
+      player.y = solid.y + solid.height + halfHeight;
+      physics.velocityY = 0;
+    }
+  });
+
+  if (player.y < halfHeight) {
+    player.y = halfHeight;
+    physics.velocityY = 0;
+  } else if (player.y >= WORLD_HEIGHT - halfHeight) {
+    player.y = WORLD_HEIGHT - halfHeight;
+    physics.velocityY = 0;
+    grounded = true;
+  }
+
+  return grounded;
+}
+
+/**
+ * Physics body of a player at (x, y)
+ * @param {number} x
+ * @param {number} y
+ * @returns {Box}
+ */
+function bodyBox(x, y) {
+  return centeredBox(x, y, PLAYER_BODY.width, PLAYER_BODY.height);
+}
+
+/**
+ * Hitbox bullets are tested against for a player at (x, y)
+ * @param {number} x
+ * @param {number} y
+ * @returns {Box}
+ */
+function playerBox(x, y) {
+  return {
+    x: x + PLAYER_HITBOX.offsetX,
+    y: y + PLAYER_HITBOX.offsetY,
+    width: PLAYER_HITBOX.width,
+    height: PLAYER_HITBOX.height,
+  };
+}
+
+// ===============================================
+// BULLETS
+// ===============================================
+
+const BULLET_SPEED = 600;
+const BULLET_SIZE = 8;
+const BULLET_OFFSET_X = 20; // Horizontal offset in the facing direction
+const BULLET_OFFSET_Y = -30; // Offset upward from center to head level
+const BULLET_LIFETIME = 2000; // Milliseconds before a bullet expires
+const BULLET_SWEEP_STEP = 4; // Max pixels a bullet moves between hit checks
+const FIRE_INTERVAL = 200; // Milliseconds between shots
+const FIRE_INTERVAL_TICKS = Math.round((FIRE_INTERVAL / 1000) * TICK_RATE); // Ticks between shots
+
+/**
+ * A bullet fired by a player at (x, y)
+ * @param {number} x
+ * @param {number} y
+ * @param {boolean} flipX True if the player faces left
+ * @param {number} now
+ * @returns {SimulatedBullet}
+ */
+function createBullet(x, y, flipX, now) {
+  const direction = flipX ? -1 : 1;
+  return {
+    x: x + direction * BULLET_OFFSET_X,
+    y: y + BULLET_OFFSET_Y,
+    velocityX: direction * BULLET_SPEED,
+    expiresAt: now + BULLET_LIFETIME,
+  };
+}
+
+/**
+ * Move a bullet for `dt` seconds, sweeping its path so it can't skip a
+ * hitbox. `findTarget` is asked for a player hit by each box the bullet
+ * passes through.
+ * @template T
+ * @param {SimulatedBullet} bullet
+ * @param {number} dt
+ * @param {number} now
+ * @param {(box: Box) => T | null | undefined} findTarget
+ * @returns {{ reason: BulletStopReason, target: T | null } | null} Why the
+ *   bullet stopped, or null if it is still flying
+ */
+function stepBullet(bullet, dt, now, findTarget) {
+  if (now >= bullet.expiresAt) {
+    return { reason: "expired", target: null };
+  }
+
+  const distance = bullet.velocityX * dt;
+  const steps = Math.max(1, Math.ceil(Math.abs(distance) / BULLET_SWEEP_STEP));
+
+  for (let i = 0; i < steps; i++) {
+    bullet.x += distance / steps;
+
+    if (isOutOfWorld(bullet.x, bullet.y)) {
+      return { reason: "expired", target: null };
+    }
+
+    const box = bulletBox(bullet.x, bullet.y);
+    if (ROCKS.some((rock) => boxesOverlap(box, rock))) {
+      return { reason: "rock", target: null };
+    }
+    if (PLATFORMS.some((platform) => boxesOverlap(box, platform))) {
+      return { reason: "platform", target: null };
+    }
+
+    const target = findTarget(box);
+    if (target) {
+      return { reason: "player", target: target };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Box covered by a bullet centered at (x, y)
+ * @param {number} x
+ * @param {number} y
+ * @returns {Box}
+ */
+function bulletBox(x, y) {
+  return centeredBox(x, y, BULLET_SIZE, BULLET_SIZE);
+}
+
+/**
+ * True once a bullet has left the playable area
+ * @param {number} x
+ * @param {number} y
+ */
+function isOutOfWorld(x, y) {
+  return x < -50 || x > WORLD_WIDTH + 50 || y < -50 || y > WORLD_HEIGHT + 50;
+}
+
+// ===============================================
+// DAMAGE
+// ===============================================
+
+const MAX_HEALTH = 10;
+const BULLET_DAMAGE = 1;
+const SPAWN_INVULNERABILITY = 3000; // Milliseconds of protection after spawning
+
+/**
+ * Apply one bullet hit to a player
+ * @param {DamageTarget} target
+ * @param {number} now
+ * @returns {boolean} False if the player can't be hurt right now
+ */
+function applyBulletDamage(target, now) {
+  if (target.isDead || now < target.invulnerableUntil) return false;
+
+  target.health = Math.max(0, target.health - BULLET_DAMAGE);
+  return true;
+}
+
+/**
+ * @param {number} value
+ * @param {number} min
+ * @param {number} max
+ */
+function clamp(value, min, max) {
+  return Math.min(Math.max(value, min), max);
+}
+
+module.exports = {
+  TICK_RATE,
+  TICK_DELTA,
+  INTERPOLATION_DELAY,
+  MAPS,
+  WORLD_WIDTH,
+  WORLD_HEIGHT,
+  GROUND_HEIGHT,
+  GROUND_TILE_SIZE,
+  PLATFORM_LAYOUT,
+  ROCK_LAYOUT,
+  PLATFORMS,
+  ROCKS,
+  boxesOverlap,
+  PLAYER_SPEED,
+  JUMP_VELOCITY,
+  GRAVITY,
+  PLAYER_BODY,
+  SPAWN_POINTS,
+  IDLE_INPUT,
+  createPhysicsState,
+  stepPlayer,
+  playerBox,
+  BULLET_SPEED,
+  BULLET_SIZE,
+  BULLET_LIFETIME,
+  FIRE_INTERVAL,
+  FIRE_INTERVAL_TICKS,
+  createBullet,
+  stepBullet,
+  bulletBox,
+  isOutOfWorld,
+  MAX_HEALTH,
+  SPAWN_INVULNERABILITY,
+  applyBulletDamage,
+};
@@ -0,0 +1,503 @@
+// @ts-check
+
+// Binary encoding for match snapshots, shared by the server (which requires
+// this file directly) and the game client.
+//
+// Positions are quantized to 1/10 px in 16-bit integers and the player flags
+// are packed into one byte. Each packet can be a delta against a snapshot the
+// client has acknowledged: players only carry the fields that changed since
+// then, and bullets only carry their ID the first time they appear.
+//
+// Packet layout (big-endian):
+//   u8 kind (KIND_FULL | KIND_DELTA), u32 tick, f64 time,
+//   u32 ack, i16 velocityX, i16 velocityY, u8 onGround (the receiver's own),
+//   [u32 baseTick, if delta]
+//   u8 player count, then per player: u8 slot, u8 field mask, fields in mask
+//   order (i16 x, i16 y, u8 flags, u8 health, u8 animation, u16 kills)
+//   u8 removed player count, then u8 slot for each
+//   u16 bullet count, then per bullet: u16 netId, u8 isNew,
+//   [u8 length + UTF-8 bulletId, if new], i16 x, i16 y
+
+const KIND_FULL = 0;
+const KIND_DELTA = 1;
+
+const POSITION_SCALE = 10; // Quantization steps per pixel
+const VELOCITY_SCALE = 10; // Quantization steps per pixel per second
+
+const FIELD_X = 1 << 0;
+const FIELD_Y = 1 << 1;
+const FIELD_FLAGS = 1 << 2;
+const FIELD_HEALTH = 1 << 3;
+const FIELD_ANIMATION = 1 << 4;
+const FIELD_KILLS = 1 << 5;
+const ALL_FIELDS =
+  FIELD_X |
+  FIELD_Y |
+  FIELD_FLAGS |
+  FIELD_HEALTH |
+  FIELD_ANIMATION |
+  FIELD_KILLS;
+
+const FLAG_FLIP_X = 1 << 0;
+const FLAG_DEAD = 1 << 1;
+const FLAG_RESPAWNING = 1 << 2;
+
+// Animation keys are sent as their index in this list
+const ANIMATIONS = [
+  "noot_idle",
+  "noot_walk",
+  "noot_jump",
+  "left",
+  "turn",
+  "right",
+];
+
+const MAX_BASELINES = 64; // Decoded snapshots a client keeps for deltas
+
+/**
+ * Player state as it is encoded, with every value already quantized
+ * @typedef {object} EncodedPlayer
+ * @property {number} slot Player's index in the match roster
+ * @property {number} x
+ * @property {number} y
+ * @property {number} flags
+ * @property {number} health
+ * @property {number} animation
+ * @property {number} kills
+ */
+
+/**
+ * @typedef {object} EncodedBullet
+ * @property {number} netId Short numeric ID the server gave the bullet
+ * @property {string} bulletId
+ * @property {number} x
+ * @property {number} y
+ */
+
+/**
+ * @typedef {object} SnapshotState
+ * @property {number} tick
+ * @property {number} time
+ * @property {EncodedPlayer[]} players
+ * @property {EncodedBullet[]} bullets
+ */
+
+/**
+ * @typedef {object} PlayerInput
+ * @property {number} slot
+ * @property {number} x
+ * @property {number} y
+ * @property {boolean} flipX
+ * @property {boolean} isDead
+ * @property {boolean} respawning
+ * @property {number} health
+ * @property {string} animation
+ * @property {number} kills
+ */
+
+/**
+ * @typedef {object} BulletInput
+ * @property {number} netId
+ * @property {string} bulletId
+ * @property {number} x
+ * @property {number} y
+ */
+
+/**
+ * What the receiver needs to replay its own unacknowledged inputs
+ * @typedef {object} ReceiverState
+ * @property {number} ack Last movement sequence number applied for the receiver
+ * @property {number} velocityX
+ * @property {number} velocityY
+ * @property {boolean} onGround
+ */
+
+/**
+ * @typedef {object} DecodedPlayer
+ * @property {number} slot
+ * @property {number} x
+ * @property {number} y
+ * @property {boolean} flipX
+ * @property {boolean} isDead
+ * @property {boolean} respawning
+ * @property {number} health
+ * @property {string} animation
+ * @property {number} kills
+ */
+
+/**
+ * @typedef {object} DecodedSnapshot
+ * @property {number} tick
+ * @property {number} time
+ * @property {ReceiverState} receiver
+ * @property {DecodedPlayer[]} players
+ * @property {{ bulletId: string, x: number, y: number }[]} bullets
+ */
+
+/** @param {number} value */
+function quantizePosition(value) {
+  const quantized = Math.round(value * POSITION_SCALE);
+  return Math.max(-32768, Math.min(32767, quantized));
+}
+
+/** @param {number} value */
+function dequantizePosition(value) {
+  return value / POSITION_SCALE;
+}
+
+/** @param {number} value */
+function quantizeVelocity(value) {
+  const quantized = Math.round(value * VELOCITY_SCALE);
+  return Math.max(-32768, Math.min(32767, quantized));
+}
+
+/**
+ * Build the quantized state for one tick
+ * @param {number} tick
+ * @param {number} time
+ * @param {PlayerInput[]} players
+ * @param {BulletInput[]} bullets
+ * @returns {SnapshotState}
+ */
+function createSnapshotState(tick, time, players, bullets) {
+  return {
+    tick: tick,
+    time: time,
+    players: players.map((player) => ({
+      slot: player.slot,
+      x: quantizePosition(player.x),
+      y: quantizePosition(player.y),
+      flags:
+        (player.flipX ? FLAG_FLIP_X : 0) |
+        (player.isDead ? FLAG_DEAD : 0) |
+        (player.respawning ? FLAG_RESPAWNING : 0),
+      health: Math.max(0, Math.min(255, player.health)),
+      animation: Math.max(0, ANIMATIONS.indexOf(player.animation)),
+      kills: Math.max(0, Math.min(65535, player.kills)),
+    })),
+    bullets: bullets.map((bullet) => ({
+      netId: bullet.netId & 0xffff,
+      bulletId: bullet.bulletId,
+      x: quantizePosition(bullet.x),
+      y: quantizePosition(bullet.y),
+    })),
+  };
+}
+
+// Growable big-endian byte writer
+class ByteWriter {
+  constructor(initialSize = 256) {
+    this.buffer = new ArrayBuffer(initialSize);
+    this.view = new DataView(this.buffer);
+    this.offset = 0;
+  }
+
+  /** @param {number} bytes */
+  reserve(bytes) {
+    if (this.offset + bytes <= this.buffer.byteLength) return;
+
+    let size = this.buffer.byteLength * 2;
+    while (size < this.offset + bytes) size *= 2;
+
+    const grown = new ArrayBuffer(size);
+    new Uint8Array(grown).set(new Uint8Array(this.buffer));
+    this.buffer = grown;
+    this.view = new DataView(grown);
+  }
+
+  /** @param {number} value */
+  u8(value) {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  /** @param {number} value */
+  u16(value) {
+    this.reserve(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  /** @param {number} value */
+  i16(value) {
+    this.reserve(2);
+    this.view.setInt16(this.offset, value);
+    this.offset += 2;
+  }
+
+  /** @param {number} value */
+  u32(value) {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value >>> 0);
+    this.offset += 4;
+  }
+
+  /** @param {number} value */
+  f64(value) {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  /** @param {string} value */
+  string(value) {
+    const bytes = new TextEncoder().encode(value).subarray(0, 255);
+    this.u8(bytes.length);
+    this.reserve(bytes.length);
+    new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+    this.offset += bytes.length;
+  }
+
+  finish() {
+    return new Uint8Array(this.buffer.slice(0, this.offset));
+  }
+}
+
+/**
+ * Encode a snapshot, as a delta against `baseline` if one is given
+ * @param {SnapshotState} state
+ * @param {SnapshotState | null} baseline A snapshot the receiver acknowledged
+ * @param {ReceiverState} receiver
+ * @returns {Uint8Array}
+ */
+function encodeSnapshot(state, baseline, receiver) {
+  const writer = new ByteWriter();
+
+  writer.u8(baseline ? KIND_DELTA : KIND_FULL);
+  writer.u32(state.tick);
+  writer.f64(state.time);
+  writer.u32(receiver.ack);
+  writer.i16(quantizeVelocity(receiver.velocityX));
+  writer.i16(quantizeVelocity(receiver.velocityY));
+  writer.u8(receiver.onGround ? 1 : 0);
+  if (baseline) writer.u32(baseline.tick);
+
+  const basePlayers = new Map(
+    (baseline ? baseline.players : []).map((player) => [player.slot, player])
+  );
+
+  // Only players with changed fields are written
+  const changes = state.players
+    .map((player) => ({
+      player: player,
+      mask: changedFields(player, basePlayers.get(player.slot)),
+    }))
+    .filter((change) => change.mask !== 0);
+
+  writer.u8(changes.length);
+  changes.forEach(({ player, mask }) => {
+    writer.u8(player.slot);
+    writer.u8(mask);
+    if (mask & FIELD_X) writer.i16(player.x);
+    if (mask & FIELD_Y) writer.i16(player.y);
+    if (mask & FIELD_FLAGS) writer.u8(player.flags);
+    if (mask & FIELD_HEALTH) writer.u8(player.health);
+    if (mask & FIELD_ANIMATION) writer.u8(player.animation);
+    if (mask & FIELD_KILLS) writer.u16(player.kills);
+  });
+
+  const currentSlots = new Set(state.players.map((player) => player.slot));
+  const removed = Array.from(basePlayers.keys()).filter(
+    (slot) => !currentSlots.has(slot)
+  );
+  writer.u8(removed.length);
+  removed.forEach((slot) => writer.u8(slot));
+
+  const baseBullets = new Set(
+    (baseline ? baseline.bullets : []).map((bullet) => bullet.netId)
+  );
+  writer.u16(state.bullets.length);
+  state.bullets.forEach((bullet) => {
+    const isNew = !baseBullets.has(bullet.netId);
+    writer.u16(bullet.netId);
+    writer.u8(isNew ? 1 : 0);
+    if (isNew) writer.string(bullet.bulletId);
+    writer.i16(bullet.x);
+    writer.i16(bullet.y);
+  });
+
+  return writer.finish();
+}
+
+/**
+ * Fields of `player` that differ from its baseline
+ * @param {EncodedPlayer} player
+ * @param {EncodedPlayer | undefined} base
+ */
+function changedFields(player, base) {
+  if (!base) return ALL_FIELDS;
+
+  return (
+    (player.x !== base.x ? FIELD_X : 0) |
+    (player.y !== base.y ? FIELD_Y : 0) |
+    (player.flags !== base.flags ? FIELD_FLAGS : 0) |
+    (player.health !== base.health ? FIELD_HEALTH : 0) |
+    (player.animation !== base.animation ? FIELD_ANIMATION : 0) |
+    (player.kills !== base.kills ? FIELD_KILLS : 0)
+  );
+}
+
+// Decodes packets for one client, keeping the snapshots deltas refer to
+function createSnapshotDecoder() {
+  /** @type {Map<number, SnapshotState>} */
+  const baselines = new Map();
+
+  /**
+   * Decode a packet. Returns null if it is a delta against a snapshot this
+   * decoder no longer has; the server will keep sending deltas against the
+   * last acknowledged snapshot until the client catches up.
+   * @param {ArrayBuffer | Uint8Array} data
+   * @returns {DecodedSnapshot | null}
+   */
+  function decode(data) {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 0;
+
+    const u8 = () => view.getUint8(offset++);
+    const u16 = () => {
+      const value = view.getUint16(offset);
+      offset += 2;
+      return value;
+    };
+    const i16 = () => {
+      const value = view.getInt16(offset);
+      offset += 2;
+      return value;
+    };
+    const u32 = () => {
+      const value = view.getUint32(offset);
+      offset += 4;
+      return value;
+    };
+    const f64 = () => {
+      const value = view.getFloat64(offset);
+      offset += 8;
+      return value;
+    };
+    const string = () => {
+      const length = u8();
+      const value = new TextDecoder().decode(
+        bytes.subarray(offset, offset + length)
+      );
+      offset += length;
+      return value;
+    };
+
+    const kind = u8();
+    const tick = u32();
+    const time = f64();
+    /** @type {ReceiverState} */
+    const receiver = {
+      ack: u32(),
+      velocityX: i16() / VELOCITY_SCALE,
+      velocityY: i16() / VELOCITY_SCALE,
+      onGround: u8() === 1,
+    };
+
+    /** @type {SnapshotState | null} */
+    let baseline = null;
+    if (kind === KIND_DELTA) {
+      baseline = baselines.get(u32()) || null;
+      if (!baseline) return null;
+    }
+
+    /** @type {Map<number, EncodedPlayer>} */
+    const players = new Map(
+      (baseline ? baseline.players : []).map((player) => [
+        player.slot,
+        { ...player },
+      ])
+    );
+
+    const changedCount = u8();
+    for (let i = 0; i < changedCount; i++) {
+      const slot = u8();
+      const mask = u8();
+      const player = players.get(slot) || {
+        slot: slot,
+        x: 0,
+        y: 0,
+        flags: 0,
+        health: 0,
+        animation: 0,
+        kills: 0,
+      };
+      if (mask & FIELD_X) player.x = i16();
+      if (mask & FIELD_Y) player.y = i16();
+      if (mask & FIELD_FLAGS) player.flags = u8();
+      if (mask & FIELD_HEALTH) player.health = u8();
+      if (mask & FIELD_ANIMATION) player.animation = u8();
+      if (mask & FIELD_KILLS) player.kills = u16();
+      players.set(slot, player);
+    }
+
+    const removedCount = u8();
+    for (let i = 0; i < removedCount; i++) {
+      players.delete(u8());
+    }
+
+    const baseBullets = new Map(
+      (baseline ? baseline.bullets : []).map((bullet) => [
+        bullet.netId,
+        bullet.bulletId,
+      ])
+    );
+    /** @type {EncodedBullet[]} */
+    const bullets = [];
+    const bulletCount = u16();
+    for (let i = 0; i < bulletCount; i++) {
+      const netId = u16();
+      const isNew = u8() === 1;
+      const bulletId = isNew ? string() : baseBullets.get(netId) || "";
+      bullets.push({ netId: netId, bulletId: bulletId, x: i16(), y: i16() });
+    }
+
+    /** @type {SnapshotState} */
+    const state = {
+      tick: tick,
+      time: time,
+      players: Array.from(players.values()),
+      bullets: bullets,
+    };
+
+    baselines.set(tick, state);
+    baselines.forEach((_, baseTick) => {
+      if (baseTick <= tick - MAX_BASELINES) baselines.delete(baseTick);
+    });
+
+    return {
+      tick: tick,
+      time: time,
+      receiver: receiver,
+      players: state.players.map((player) => ({
+        slot: player.slot,
+        x: dequantizePosition(player.x),
+        y: dequantizePosition(player.y),
+        flipX: (player.flags & FLAG_FLIP_X) !== 0,
+        isDead: (player.flags & FLAG_DEAD) !== 0,
+        respawning: (player.flags & FLAG_RESPAWNING) !== 0,
+        health: player.health,
+        animation: ANIMATIONS[player.animation] || ANIMATIONS[0],
+        kills: player.kills,
+      })),
+      bullets: bullets.map((bullet) => ({
+        bulletId: bullet.bulletId,
+        x: dequantizePosition(bullet.x),
+        y: dequantizePosition(bullet.y),
+      })),
+    };
+  }
+
+  return {
+    decode: decode,
+    reset: () => baselines.clear(),
+  };
+}
+
+module.exports = {
+  createSnapshotState,
+  encodeSnapshot,
+  createSnapshotDecoder,
+};
@@ -0,0 +1,31 @@
+// Wallets whose chat messages the player muted.
+//
+// The server does the muting, per socket, so the list is kept in
+// localStorage and sent again (with mute-player) whenever the lobby or game
+// socket connects. Addresses are stored lowercase.
+
+const STORAGE_KEY = "nootMutedPlayers";
+
+export function getMutedAddresses(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch (err) {
+    console.error("Error reading muted players:", err);
+    return [];
+  }
+}
+
+// Mute or unmute a wallet and return the new list
+export function setAddressMuted(address: string, muted: boolean): string[] {
+  const key = address.toLowerCase();
+  const others = getMutedAddresses().filter((entry) => entry !== key);
+  const addresses = muted ? [...others, key] : others;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(addresses));
+  } catch (err) {
+    console.error("Error saving muted players:", err);
+  }
+  return addresses;
+}
@@ -0,0 +1,288 @@
+// Textures and animations shared by the game, the killcam and the replay
+// viewer.
+//
+// Everything is drawn with Phaser graphics at load time instead of being
+// loaded from image files, so scenes call createWorldTextures() once their
+// loader is done.
+
+import {
+  GROUND_TILE_SIZE,
+  PLATFORM_LAYOUT,
+  ROCK_LAYOUT,
+  WORLD_HEIGHT,
+  WORLD_WIDTH,
+} from "@/shared/simulation";
+
+// Draw the ground, noot, bullet and rock textures into a scene's texture
+// manager
+export function createWorldTextures(scene: Phaser.Scene) {
+  // Create a graphics object for the ground
+  const groundGraphics = scene.make.graphics({ x: 0, y: 0 }, false);
+
+  // Draw a rectangle for the ground
+  groundGraphics.fillStyle(0x654321, 1); // Brown color
+  groundGraphics.fillRect(0, 0, 64, 64);
+
+  // Add some texture to make it look like dirt/grass
+  groundGraphics.fillStyle(0x7cfc00, 1); // Green for grass on top
+  groundGraphics.fillRect(0, 0, 64, 15);
+
+  // Add dirt details
+  groundGraphics.fillStyle(0x8b4513, 0.5); // Darker brown for dirt texture
+  groundGraphics.fillRect(10, 20, 10, 8);
+  groundGraphics.fillRect(30, 35, 15, 10);
+  groundGraphics.fillRect(50, 25, 12, 8);
+
+  // Generate a texture from the graphics object
+  groundGraphics.generateTexture("ground", 64, 64);
+
+  createNootTextures(scene);
+
+  // Create a bullet graphic
+  const bulletGraphics = scene.make.graphics({ x: 0, y: 0 }, false);
+
+  // Draw bullet
+  bulletGraphics.fillStyle(0xffff00, 1); // Yellow core
+  bulletGraphics.fillCircle(4, 4, 4);
+
+  bulletGraphics.fillStyle(0xff6600, 1); // Orange trail
+  bulletGraphics.fillCircle(2, 2, 2);
+
+  // Generate bullet texture (8x8 pixels)
+  bulletGraphics.generateTexture("bullet", 8, 8);
+
+  const rockGraphics = scene.make.graphics({ x: 0, y: 0 }, false);
+
+  // Draw a rock shape
+  rockGraphics.fillStyle(0x777777, 1); // Gray color for base
+  rockGraphics.fillCircle(16, 16, 16);
+
+  // Add some details to make it look more like a rock
+  rockGraphics.fillStyle(0x555555, 0.7); // Darker gray for details
+  rockGraphics.fillRect(5, 10, 8, 4);
+  rockGraphics.fillRect(20, 8, 6, 5);
+  rockGraphics.fillRect(12, 20, 10, 6);
+
+  // Generate rock texture (32x32 pixels)
+  rockGraphics.generateTexture("rock", 32, 32);
+}
+
+// Walk, jump and idle animations of the noot textures
+export function createNootAnimations(scene: Phaser.Scene) {
+  scene.anims.create({
+    key: "noot_walk",
+    frames: [
+      { key: "noot_walk_0" },
+      { key: "noot_walk_1" },
+      { key: "noot_walk_2" },
+      { key: "noot_walk_3" },
+    ],
+    frameRate: 8,
+    repeat: -1,
+  });
+
+  scene.anims.create({
+    key: "noot_jump",
+    frames: [{ key: "noot_jump" }],
+    frameRate: 10,
+  });
+
+  scene.anims.create({
+    key: "noot_idle",
+    frames: [{ key: "noot_idle" }], // Using the dedicated idle frame instead of base
+    frameRate: 10,
+  });
+}
+
+// Draw the ground, platforms and rocks as plain images, for scenes that
+// only show the level and leave the physics to the match server
+export function drawLevel(scene: Phaser.Scene) {
+  const tilesNeeded = Math.ceil(WORLD_WIDTH / GROUND_TILE_SIZE) + 4;
+  for (let i = 0; i < tilesNeeded; i++) {
+    scene.add
+      .image(i * GROUND_TILE_SIZE, WORLD_HEIGHT, "ground")
+      .setOrigin(0, 1);
+  }
+  PLATFORM_LAYOUT.forEach((platform) => {
+    scene.add
+      .image(platform.x, platform.y, "ground")
+      .setScale(platform.scaleX, 0.5);
+  });
+  ROCK_LAYOUT.forEach((rock) => {
+    scene.add.image(rock.x, rock.y, "rock").setScale(rock.scale);
+  });
+}
+
+// Idle, walk, jump and base frames of the noot
+function createNootTextures(scene: Phaser.Scene) {
+  // Increased texture height to 80 pixels to fit the raised character
+  const width = 64;
+  const height = 115;
+  const centerX = width / 2;
+  const centerY = height / 2.5; // Adjusted for raised position
+
+  // Create the base NOOT parts once - we'll recreate these for each frame
+  function drawBaseNoot(graphics: Phaser.GameObjects.Graphics) {
+    // DARK BODY
+    graphics.fillStyle(0x222222, 1);
+    graphics.beginPath();
+    // Move the body up by 24 pixels total (16 + 8 more)
+    graphics.arc(centerX - 5, centerY - 24, 18, 0, Math.PI * 1); // Body moved up more
+    graphics.arc(centerX + 10, centerY - 36, 10, 0, Math.PI * 2); // Head moved up more
+    graphics.fill();
+
+    // ORANGE BEAK - adjusted for new head position
+    graphics.fillStyle(0xff9900, 1);
+    graphics.beginPath();
+    graphics.moveTo(centerX + 18, centerY - 34); // Moved up more
+    graphics.lineTo(centerX + 30, centerY - 32); // Moved up more
+    graphics.lineTo(centerX + 18, centerY - 26); // Moved up more
+    graphics.closePath();
+    graphics.fill();
+
+    // SINGLE EYE - adjusted for new head position
+    graphics.fillStyle(0x000000, 1);
+    graphics.beginPath();
+    graphics.arc(centerX + 8, centerY - 36, 5, 0, Math.PI * 2); // Moved up more
+    graphics.fill();
+
+    // EYE HIGHLIGHT - adjusted for new head position
+    graphics.fillStyle(0xffffff, 1);
+    graphics.beginPath();
+    graphics.arc(centerX + 6, centerY - 37, 2, 0, Math.PI * 2); // Moved up more
+    graphics.fill();
+  }
+
+  // Create base/idle texture
+  const idleGraphics = scene.make.graphics({ x: 0, y: 0 }, false);
+
+  // Draw base parts
+  drawBaseNoot(idleGraphics);
+
+  // Draw static legs and feet - moved up by 24 pixels total from original
+  idleGraphics.fillStyle(0xff9900, 1);
+  idleGraphics.fillRect(centerX - 8, centerY - 9, 6, 10); // Left leg moved up more
+  idleGraphics.fillRect(centerX + 2, centerY - 9, 6, 10); // Right leg moved up more
+  idleGraphics.fillRect(centerX - 10, centerY + 1, 10, 5); // Left foot moved up more
+  idleGraphics.fillRect(centerX, centerY + 1, 10, 5); // Right foot moved up more
+
+  // Draw static wing - moved up to match body
+  idleGraphics.fillStyle(0x444444, 1);
+  idleGraphics.beginPath();
+  idleGraphics.arc(centerX - 5, centerY - 19, 12, -0.5, 0.5); // Moved up more
+  idleGraphics.lineTo(centerX - 5, centerY - 19); // Moved up more
+  idleGraphics.closePath();
+  idleGraphics.fill();
+
+  // Generate idle texture
+  idleGraphics.generateTexture("noot_idle", width, height);
+  idleGraphics.destroy();
+
+  // Create walking animation frames - adjusted all positions
+  for (let i = 0; i < 4; i++) {
+    const walkFrame = scene.make.graphics({ x: 0, y: 0 }, false);
+
+    // Draw base parts (same for all frames)
+    drawBaseNoot(walkFrame);
+
+    // Draw animated legs with bobbing motion - moved up more
+    walkFrame.fillStyle(0xff9900, 1);
+    walkFrame.fillRect(
+      centerX - 8,
+      centerY - 9 + Math.sin((i * Math.PI) / 2) * 5,
+      6,
+      10
+    ); // Left leg moved up more
+
+    walkFrame.fillRect(
+      centerX + 2,
+      centerY - 9 - Math.sin((i * Math.PI) / 2) * 5,
+      6,
+      10
+    ); // Right leg moved up more
+
+    // Draw animated feet - moved up more
+    walkFrame.fillRect(
+      centerX - 10,
+      centerY + 1 + Math.sin((i * Math.PI) / 2) * 5,
+      10,
+      5
+    ); // Left foot moved up more
+
+    walkFrame.fillRect(
+      centerX,
+      centerY + 1 - Math.sin((i * Math.PI) / 2) * 5,
+      10,
+      5
+    ); // Right foot moved up more
+
+    // Draw wing with slight movement - adjusted for new body position
+    walkFrame.fillStyle(0x444444, 1);
+    const wingAngle = -0.5 + Math.sin((i * Math.PI) / 2) * 0.1;
+    walkFrame.beginPath();
+    walkFrame.arc(centerX - 5, centerY - 19, 12, wingAngle, 0.5); // Moved up more
+    walkFrame.lineTo(centerX - 5, centerY - 19); // Moved up more
+    walkFrame.closePath();
+    walkFrame.fill();
+
+    // Generate walk frame texture
+    walkFrame.generateTexture(`noot_walk_${i}`, width, height);
+    walkFrame.destroy();
+  }
+
+  // Create jump frame - adjust positions
+  const jumpFrame = scene.make.graphics({ x: 0, y: 0 }, false);
+
+  // For jump frame, we need to adjust the head position
+  // DARK BODY
+  jumpFrame.fillStyle(0x222222, 1);
+  jumpFrame.beginPath();
+  jumpFrame.arc(centerX - 5, centerY - 24, 18, 0, Math.PI * 1); // Body moved up more
+  jumpFrame.arc(centerX + 10, centerY - 41, 10, 0, Math.PI * 2); // Head moved up more
+  jumpFrame.fill();
+
+  // ORANGE BEAK - adjusted for head position
+  jumpFrame.fillStyle(0xff9900, 1);
+  jumpFrame.beginPath();
+  jumpFrame.moveTo(centerX + 18, centerY - 39); // Moved up more
+  jumpFrame.lineTo(centerX + 30, centerY - 37); // Moved up more
+  jumpFrame.lineTo(centerX + 18, centerY - 31); // Moved up more
+  jumpFrame.closePath();
+  jumpFrame.fill();
+
+  // EYE - adjusted for head position
+  jumpFrame.fillStyle(0x000000, 1);
+  jumpFrame.beginPath();
+  jumpFrame.arc(centerX + 8, centerY - 41, 5, 0, Math.PI * 2); // Moved up more
+  jumpFrame.fill();
+
+  // EYE HIGHLIGHT - adjusted for head position
+  jumpFrame.fillStyle(0xffffff, 1);
+  jumpFrame.beginPath();
+  jumpFrame.arc(centerX + 6, centerY - 42, 2, 0, Math.PI * 2); // Moved up more
+  jumpFrame.fill();
+
+  // WINGS SPREAD FOR JUMPING
+  jumpFrame.fillStyle(0x444444, 1);
+  jumpFrame.fillRect(centerX - 23, centerY - 24, 18, 5); // Left wing moved up more
+  jumpFrame.fillRect(centerX + 5, centerY - 24, 18, 5); // Right wing moved up more
+
+  // LEGS EXTENDED FOR JUMPING
+  jumpFrame.fillStyle(0xff9900, 1);
+  jumpFrame.fillRect(centerX - 8, centerY - 9, 6, 15); // Left leg moved up more
+  jumpFrame.fillRect(centerX + 2, centerY - 9, 6, 15); // Right leg moved up more
+  jumpFrame.fillRect(centerX - 10, centerY + 6, 10, 5); // Left foot moved up more
+  jumpFrame.fillRect(centerX, centerY + 6, 10, 5); // Right foot moved up more
+
+  // Generate jump texture
+  jumpFrame.generateTexture("noot_jump", width, height);
+  jumpFrame.destroy();
+
+  // Also create a simple base texture for possible other uses
+  const baseFrame = scene.make.graphics({ x: 0, y: 0 }, false);
+  drawBaseNoot(baseFrame);
+  baseFrame.generateTexture("noot_base", width, height);
+  baseFrame.destroy();
+
+  return { centerX, centerY, width, height };
+}
@@ -0,0 +1,190 @@
+// Killcam shown while the local player waits to respawn.
+//
+// The last KILLCAM_LENGTH milliseconds before the death are replayed from
+// the client's snapshot history, with the camera on the killer, in a scene
+// drawn over the game. The server respawns the player on its own schedule,
+// so the game stops this scene as soon as the respawn arrives, finished or
+// not. Players can also skip it with space or a click.
+
+import * as PhaserNamespace from "phaser";
+const Phaser = PhaserNamespace;
+import { WORLD_HEIGHT, WORLD_WIDTH } from "@/shared/simulation";
+import type { WorldSnapshot } from "@/shared/protocol";
+import { drawLevel } from "@/utils/gameTextures";
+import type { SnapshotHistory } from "@/utils/snapshotBuffer";
+
+export const KILLCAM_SCENE = "killcam";
+export const KILLCAM_LENGTH = 2500; // Milliseconds replayed up to the death
+const KILLCAM_WEAPON = "Rifle"; // Everyone carries the same gun for now
+
+export interface KillcamData {
+  history: SnapshotHistory<WorldSnapshot>;
+  deathTime: number; // Server time of the death
+  killerId: string;
+  killerName: string;
+  killerHealth: number; // Health the killer was left with
+  names: Map<string, string>; // Labels of the players by ID
+}
+
+export class KillcamScene extends Phaser.Scene {
+  private killcam!: KillcamData;
+  private elapsed = 0; // Milliseconds played so far
+  private players = new Map<
+    string,
+    { sprite: Phaser.GameObjects.Sprite; label: Phaser.GameObjects.Text }
+  >();
+  private bullets = new Map<string, Phaser.GameObjects.Image>();
+  private banner!: Phaser.GameObjects.Text;
+  private killerText!: Phaser.GameObjects.Text;
+  private skipKey?: Phaser.Input.Keyboard.Key;
+
+  constructor() {
+    super({ key: KILLCAM_SCENE });
+  }
+
+  // Called with the launch data each time the killcam starts
+  init(data: KillcamData) {
+    this.killcam = data;
+    this.elapsed = 0;
+    this.players = new Map();
+    this.bullets = new Map();
+  }
+
+  create() {
+    this.cameras.main
+      .setBackgroundColor("#87CEEB")
+      .setBounds(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+    drawLevel(this);
+
+    this.banner = this.add
+      .text(0, 24, "KILLCAM", {
+        fontSize: "28px",
+        color: "#ff0000",
+        stroke: "#000",
+        strokeThickness: 4,
+      })
+      .setOrigin(0.5, 0)
+      .setScrollFactor(0)
+      .setDepth(1000);
+
+    const { killerName, killerHealth } = this.killcam;
+    this.killerText = this.add
+      .text(
+        0,
+        0,
+        `Killed by ${killerName}\n${KILLCAM_WEAPON} · ${killerHealth} health left\nSpace or click to skip`,
+        {
+          fontSize: "20px",
+          color: "#ffffff",
+          backgroundColor: "#00000099",
+          padding: { x: 12, y: 8 },
+          align: "center",
+        }
+      )
+      .setOrigin(0.5, 1)
+      .setScrollFactor(0)
+      .setDepth(1000);
+
+    this.skipKey = this.input.keyboard?.addKey(
+      Phaser.Input.Keyboard.KeyCodes.SPACE
+    );
+    this.input.once("pointerdown", () => this.scene.stop());
+  }
+
+  update(time: number, delta: number) {
+    if (this.skipKey && Phaser.Input.Keyboard.JustDown(this.skipKey)) {
+      this.scene.stop();
+      return;
+    }
+
+    const { history, deathTime } = this.killcam;
+    this.elapsed += delta;
+    const renderTime = deathTime - KILLCAM_LENGTH + this.elapsed;
+    if (renderTime >= deathTime) {
+      this.scene.stop();
+      return;
+    }
+
+    const frame = history.sample(renderTime);
+    if (frame) {
+      this.drawPlayers(frame.from, frame.to, frame.progress);
+      this.drawBullets(frame.from, frame.to, frame.progress);
+    }
+
+    // Keep the texts in place when the window is resized
+    const camera = this.cameras.main;
+    this.banner.setX(camera.width / 2);
+    this.killerText.setPosition(camera.width / 2, camera.height - 24);
+  }
+
+  private drawPlayers(from: WorldSnapshot, to: WorldSnapshot, t: number) {
+    const { killerId, names } = this.killcam;
+
+    from.players.forEach((state) => {
+      const next =
+        to.players.find((other) => other.playerId === state.playerId) || state;
+      const x = state.x + (next.x - state.x) * t;
+      const y = state.y + (next.y - state.y) * t;
+
+      let drawn = this.players.get(state.playerId);
+      if (!drawn) {
+        drawn = {
+          sprite: this.add.sprite(x, y, "noot_idle"),
+          label: this.add
+            .text(0, 0, "", {
+              fontSize: "14px",
+              color: state.playerId === killerId ? "#ffff00" : "#ffffff",
+              backgroundColor: "#000000",
+              padding: { x: 3, y: 2 },
+            })
+            .setOrigin(0.5, 0.5),
+        };
+        this.players.set(state.playerId, drawn);
+      }
+
+      drawn.sprite
+        .setPosition(x, y)
+        .setFlipX(state.flipX)
+        .setVisible(!state.isDead);
+      if (this.anims.exists(state.animation)) {
+        drawn.sprite.anims.play(state.animation, true);
+      }
+      drawn.label
+        .setText(`${names.get(state.playerId) || ""} [${state.health}]`)
+        .setPosition(x, y - 70)
+        .setVisible(!state.isDead);
+
+      if (state.playerId === killerId) {
+        this.cameras.main.centerOn(x, y);
+      }
+    });
+
+    // Players who left during the killcam
+    this.players.forEach((drawn, playerId) => {
+      if (from.players.some((state) => state.playerId === playerId)) return;
+      drawn.sprite.destroy();
+      drawn.label.destroy();
+      this.players.delete(playerId);
+    });
+  }
+
+  private drawBullets(from: WorldSnapshot, to: WorldSnapshot, t: number) {
+    from.bullets.forEach((state) => {
+      const next =
+        to.bullets.find((other) => other.bulletId === state.bulletId) || state;
+
+      let sprite = this.bullets.get(state.bulletId);
+      if (!sprite) {
+        sprite = this.add.image(state.x, state.y, "bullet");
+        this.bullets.set(state.bulletId, sprite);
+      }
+      sprite.setPosition(state.x + (next.x - state.x) * t, state.y);
+    });
+
+    this.bullets.forEach((sprite, bulletId) => {
+      if (from.bullets.some((state) => state.bulletId === bulletId)) return;
+      sprite.destroy();
+      this.bullets.delete(bulletId);
+    });
+  }
+}
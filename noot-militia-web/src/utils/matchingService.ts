@@ -1,34 +1,61 @@
 import { EventEmitter } from "events";
 import { io, Socket } from "socket.io-client";
+import type {
+  ClientToServerEvents,
+  GameStartPayload,
+  LobbyPlayer,
+  LobbySettings,
+  PartyData,
+  ServerToClientEvents,
+} from "@/shared/protocol";
+import { createSignInMessage } from "@/shared/signIn";
+import { getMutedAddresses, setAddressMuted } from "@/utils/chatMutes";
 
-interface Player {
-  id: string;
+// The wallet a player joins matching with. It signs the server's sign-in
+// message whenever there is no session to reuse, so it should read the
+// wallet's current state.
+export interface MatchingWallet {
   address: string;
-  ready: boolean;
+  getChainId: () => number;
+  signMessage: (message: string) => Promise<string>;
 }
 
-interface LobbyUpdate {
-  lobbyId: string;
-  players: Player[];
-  state: string;
+// Lobby to join instead of the closest public one
+export interface LobbyRequest {
+  lobbyId?: string; // E.g. the lobby a finished match was played from
+  code?: string; // Invite code of a private lobby
 }
 
 class MatchingService extends EventEmitter {
-  private socket: Socket | null = null;
-  private players: Player[] = [];
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null =
+    null;
+  private players: LobbyPlayer[] = [];
+  private party: PartyData | null = null;
   private lobbyId: string | null = null;
   private connected = false;
+  private wallet: MatchingWallet | null = null;
+  private lobbyRequest: LobbyRequest = {};
+  // Session from the last signature, reused on reconnects until it expires
+  private session: {
+    address: string;
+    token: string;
+    expiresAt: number;
+  } | null = null;
+  private resumingSession = false; // Whether the last join sent the session
 
   constructor() {
     super();
   }
 
-  connect(address: string) {
+  connect(wallet: MatchingWallet, request: LobbyRequest = {}) {
     // Close existing connection if any
     if (this.socket) {
       this.disconnect();
     }
 
+    this.wallet = wallet;
+    this.lobbyRequest = request;
+
     try {
       // Connect to Socket.IO server - adjust URL based on your deployment
       const serverUrl =
@@ -40,38 +67,137 @@ class MatchingService extends EventEmitter {
         console.log("Connected to matching server");
         this.connected = true;
 
-        // Join the matching system with the player's wallet address
-        this.socket.emit("join-matching", { address });
+        // Prove we own the wallet we join with
+        this.signIn();
+
+        // The server mutes per socket, so tell it who we muted before
+        getMutedAddresses().forEach((address) => {
+          this.socket?.emit("mute-player", { address, muted: true });
+        });
 
         this.emit("connected");
       });
 
+      // Sign the server's nonce and join the matching system with it
+      this.socket.on("sign-in-challenge", async (challenge) => {
+        const message = createSignInMessage({
+          domain: window.location.host,
+          address: wallet.address,
+          uri: window.location.origin,
+          chainId: wallet.getChainId(),
+          nonce: challenge.nonce,
+          issuedAt: new Date().toISOString(),
+          expirationTime: new Date(challenge.expiresAt).toISOString(),
+        });
+
+        let signature: string;
+        try {
+          signature = await wallet.signMessage(message);
+        } catch (error) {
+          console.error("Wallet did not sign in:", error);
+          this.emit("error", error);
+          return;
+        }
+
+        this.resumingSession = false;
+        this.socket?.emit("join-matching", {
+          address: wallet.address,
+          message,
+          signature,
+          ...this.lobbyRequest,
+        });
+      });
+
+      // Keep the session the server gave us for the signature
+      this.socket.on("signed-in", (data) => {
+        this.session = {
+          address: wallet.address,
+          token: data.session,
+          expiresAt: data.expiresAt,
+        };
+      });
+
+      // Handle the server rejecting our signature or session
+      this.socket.on("sign-in-failed", (data) => {
+        if (this.resumingSession) {
+          // The session is gone, e.g. after a server restart - sign again
+          this.session = null;
+          this.signIn();
+          return;
+        }
+
+        console.error("Sign-in failed:", data.reason);
+        this.emit("error", new Error(data.reason));
+      });
+
+      // Handle an invite code that didn't get us into its lobby
+      this.socket.on("lobby-join-failed", (data) => {
+        this.emit("lobby-error", data.reason);
+      });
+
+      // Handle the server turning down a host action
+      this.socket.on("lobby-action-failed", (data) => {
+        this.emit("lobby-error", data.reason);
+      });
+
+      // Handle a ready check we didn't answer in time
+      this.socket.on("ready-check-failed", (data) => {
+        this.emit("lobby-error", data.reason);
+      });
+
+      // Handle the host kicking us. The server puts us in another lobby.
+      this.socket.on("kicked", (data) => {
+        this.emit("lobby-error", data.reason);
+      });
+
       // Handle successful join
-      this.socket.on(
-        "matching-joined",
-        (data: {
-          success: boolean;
-          lobbyId: string;
-          players: Player[];
-          state: string;
-        }) => {
-          if (data.success) {
-            this.lobbyId = data.lobbyId;
-            this.players = data.players;
-            this.emit("joined", this.lobbyId);
-            this.emit("players-updated", this.players);
-          }
+      this.socket.on("matching-joined", (data) => {
+        if (data.success) {
+          this.lobbyId = data.lobbyId;
+          // Come back to this lobby if the connection drops
+          this.lobbyRequest = { lobbyId: data.lobbyId };
+          this.emit("lobby-code", data.code);
+          this.emitLobbyOptions(data);
+          this.players = data.players;
+          this.emit("joined", this.lobbyId);
+          this.emit("players-updated", this.players);
+          this.emit("wait-estimate", data.estimatedWait);
+          this.emit("ready-check", data.readyCheckTimeLeft);
         }
-      );
+      });
 
       // Handle lobby updates
-      this.socket.on("lobby-update", (update: LobbyUpdate) => {
+      this.socket.on("lobby-update", (update) => {
         this.players = update.players;
         this.emit("players-updated", this.players);
+        this.emitLobbyOptions(update);
+        this.emit("wait-estimate", update.estimatedWait);
+        this.emit("ready-check", update.readyCheckTimeLeft);
+      });
+
+      // Handle changes to our party, or leaving it
+      this.socket.on("party-update", (data) => {
+        this.party = data.party;
+        this.emit("party-updated", this.party);
+      });
+
+      // Handle a party leader inviting us
+      this.socket.on("party-invite", (invite) => {
+        this.emit("party-invite", invite);
+      });
+
+      // Handle the server turning down a party action
+      this.socket.on("party-action-failed", (data) => {
+        this.emit("party-error", data.reason);
+      });
+
+      // Handle a chat message from someone in the lobby
+      this.socket.on("chat-message", (message) => {
+        this.emit("chat-message", message);
       });
 
       // Handle game countdown
-      this.socket.on("game-countdown", (data: { countdown: number }) => {
+      this.socket.on("game-countdown", (data) => {
         this.emit("countdown", data.countdown);
       });
 
@@ -81,7 +207,7 @@ class MatchingService extends EventEmitter {
       });
 
       // Handle game start
-      this.socket.on("game-start", (gameData: any) => {
+      this.socket.on("game-start", (gameData: GameStartPayload) => {
         this.emit("game-starting", gameData);
       });
 
@@ -101,6 +227,63 @@ class MatchingService extends EventEmitter {
     }
   }
 
+  // Join with the session of an earlier signature if it is still good, or
+  // ask for a nonce for the wallet to sign
+  private signIn() {
+    if (!this.socket || !this.wallet) return;
+
+    const session = this.session;
+    if (
+      session &&
+      session.address === this.wallet.address &&
+      session.expiresAt > Date.now()
+    ) {
+      this.resumingSession = true;
+      this.socket.emit("join-matching", {
+        address: this.wallet.address,
+        session: session.token,
+        ...this.lobbyRequest,
+      });
+      return;
+    }
+
+    this.socket.emit("request-sign-in");
+  }
+
+  // Pass on who hosts the lobby and how the host set it up
+  private emitLobbyOptions(lobby: {
+    hostId: string | null;
+    locked: boolean;
+    settings: LobbySettings;
+  }) {
+    this.emit("lobby-host", lobby.hostId);
+    this.emit("lobby-locked", lobby.locked);
+    this.emit("lobby-settings", lobby.settings);
+  }
+
+  // Connect again with the wallet of the last connect(), to the same lobby
+  reconnect() {
+    if (this.wallet) {
+      this.connect(this.wallet, this.lobbyRequest);
+    }
+  }
+
+  createPrivateLobby() {
+    if (this.socket && this.connected) {
+      this.socket.emit("create-private-lobby");
+    } else {
+      console.warn("Cannot create a private lobby, not connected to server");
+    }
+  }
+
+  joinPrivateLobby(code: string) {
+    if (this.socket && this.connected) {
+      this.socket.emit("join-private-lobby", { code });
+    } else {
+      console.warn("Cannot join a private lobby, not connected to server");
+    }
+  }
+
   disconnect() {
     if (this.socket) {
       // Leave the matching system before disconnecting
@@ -130,6 +313,102 @@ class MatchingService extends EventEmitter {
     }
   }
 
+  // Parties - groups of friends the leader queues into a lobby together
+
+  createParty() {
+    if (this.socket && this.connected) {
+      this.socket.emit("create-party");
+    } else {
+      console.warn("Cannot create a party, not connected to server");
+    }
+  }
+
+  inviteToParty(address: string) {
+    if (this.socket && this.connected) {
+      this.socket.emit("invite-to-party", { address });
+    } else {
+      console.warn("Cannot invite to party, not connected to server");
+    }
+  }
+
+  // Join a party by its code, also used to accept an invite
+  joinParty(code: string) {
+    if (this.socket && this.connected) {
+      this.socket.emit("join-party", { code });
+    } else {
+      console.warn("Cannot join a party, not connected to server");
+    }
+  }
+
+  leaveParty() {
+    if (this.socket && this.connected) {
+      this.socket.emit("leave-party");
+    } else {
+      console.warn("Cannot leave party, not connected to server");
+    }
+  }
+
+  queueParty() {
+    if (this.socket && this.connected) {
+      this.socket.emit("queue-party");
+    } else {
+      console.warn("Cannot queue party, not connected to server");
+    }
+  }
+
+  getParty() {
+    return this.party;
+  }
+
+  sendChatMessage(text: string) {
+    if (this.socket && this.connected) {
+      this.socket.emit("lobby-chat", { text });
+    } else {
+      console.warn("Cannot send chat message, not connected to server");
+    }
+  }
+
+  // Mute or unmute a player, here and in later lobbies and matches.
+  // Returns the muted addresses.
+  setPlayerMuted(address: string, muted: boolean) {
+    this.socket?.emit("mute-player", { address, muted });
+    return setAddressMuted(address, muted);
+  }
+
+  // Host controls - the server ignores them from anyone but the host
+
+  kickPlayer(playerId: string) {
+    if (this.socket && this.connected) {
+      this.socket.emit("kick-lobby-player", { playerId });
+    } else {
+      console.warn("Cannot kick player, not connected to server");
+    }
+  }
+
+  transferHost(playerId: string) {
+    if (this.socket && this.connected) {
+      this.socket.emit("transfer-host", { playerId });
+    } else {
+      console.warn("Cannot transfer host, not connected to server");
+    }
+  }
+
+  setLobbyLocked(locked: boolean) {
+    if (this.socket && this.connected) {
+      this.socket.emit("set-lobby-locked", { locked });
+    } else {
+      console.warn("Cannot lock lobby, not connected to server");
+    }
+  }
+
+  updateLobbySettings(changes: Partial<LobbySettings>) {
+    if (this.socket && this.connected) {
+      this.socket.emit("update-lobby-settings", changes);
+    } else {
+      console.warn("Cannot change lobby settings, not connected to server");
+    }
+  }
+
   getPlayers() {
     return this.players;
   }
@@ -138,6 +417,11 @@ class MatchingService extends EventEmitter {
     return this.lobbyId;
   }
 
+  // Our player ID in the lobby, to compare with the host's
+  getPlayerId() {
+    return this.socket?.id ?? null;
+  }
+
   isConnected() {
     return this.connected;
   }
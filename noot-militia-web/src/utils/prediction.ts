@@ -0,0 +1,85 @@
+// Client-side prediction history for the local player.
+//
+// Every input the client sends is tagged with a sequence number and kept
+// until a server snapshot acknowledges it. On acknowledgement, the inputs up
+// to it are dropped and the remaining ones are replayed with the shared
+// simulation, starting from the server's authoritative state.
+
+import { stepPlayer, type SimulatedPlayer } from "@/shared/simulation";
+import type { PlayerInputPayload } from "@/shared/protocol";
+
+type MovementInput = Pick<
+  PlayerInputPayload,
+  "left" | "right" | "jump" | "aim"
+>;
+
+interface PendingInput {
+  seq: number;
+  input: MovementInput;
+}
+
+class PredictionBuffer {
+  private pending: PendingInput[] = [];
+  private nextSeq = 1;
+  private maxPending: number;
+
+  constructor(maxPending = 120) {
+    this.maxPending = maxPending;
+  }
+
+  // Remember an input that was just applied locally and return its sequence
+  // number
+  record(input: MovementInput): number {
+    const seq = this.nextSeq++;
+    this.pending.push({
+      seq,
+      input: {
+        left: input.left,
+        right: input.right,
+        jump: input.jump,
+        aim: input.aim,
+      },
+    });
+
+    // Never let an unresponsive server grow the history without bound
+    if (this.pending.length > this.maxPending) {
+      this.pending.shift();
+    }
+
+    return seq;
+  }
+
+  // Reconcile with the server's state after input `ackSeq`. Returns where the
+  // local player is once the unacknowledged inputs are replayed from that
+  // state, `dt` seconds each - or null if the ack is not for a pending input.
+  reconcile(
+    ackSeq: number,
+    serverState: SimulatedPlayer,
+    dt: number
+  ): SimulatedPlayer | null {
+    const acked = this.pending.some((pending) => pending.seq === ackSeq);
+
+    // Drop everything the server has already processed
+    this.pending = this.pending.filter((pending) => pending.seq > ackSeq);
+
+    if (!acked) return null;
+
+    const replayed: SimulatedPlayer = {
+      ...serverState,
+      physics: { ...serverState.physics },
+    };
+    this.pending.forEach((pending) => stepPlayer(replayed, pending.input, dt));
+    return replayed;
+  }
+
+  // Forget all history, e.g. after the server teleports the player
+  reset() {
+    this.pending = [];
+  }
+
+  getPendingCount() {
+    return this.pending.length;
+  }
+}
+
+export default PredictionBuffer;
@@ -0,0 +1,322 @@
+// Playback of match recordings (see server/replays.js).
+//
+// A recording holds the inputs the server applied and its authoritative
+// events, so the match is replayed by running the same shared simulation
+// the server ran: each tick applies that tick's inputs, moves everyone
+// alive, then applies the tick's other events in the order they were
+// logged. Keyframes carry every player's full state, so seeking restores
+// the last keyframe before the target and simulates forward from there.
+//
+// Bullets only travel in straight lines, so they are moved here without
+// collisions and removed when the recording says they stopped.
+
+import {
+  MAX_HEALTH,
+  createPhysicsState,
+  stepPlayer,
+  type SimulatedPlayer,
+} from "@/shared/simulation";
+import type {
+  MatchEndedPayload,
+  MatchPhase,
+  MatchRecording,
+  ReplayBulletState,
+  ReplayEvent,
+  ReplayKeys,
+  ReplayPlayerState,
+} from "@/shared/protocol";
+
+// Recording format this viewer plays, see REPLAY_VERSION in replays.js
+export const REPLAY_VERSION = 1;
+
+export interface ReplayPlayer extends SimulatedPlayer {
+  slot: number;
+  health: number;
+  isDead: boolean;
+  kills: number;
+  deaths: number;
+  keys: ReplayKeys | null; // Null until the player's first input
+  previousX: number; // Position one tick earlier, for interpolation
+  previousY: number;
+}
+
+export interface ReplayBullet extends ReplayBulletState {
+  previousX: number;
+}
+
+export default class ReplayPlayback {
+  readonly recording: MatchRecording;
+  readonly tickDelta: number; // Seconds simulated by each tick
+
+  tick = 0; // Last tick applied
+  phase: MatchPhase = "warmup";
+  players = new Map<number, ReplayPlayer>(); // Players in the match by slot
+  bullets = new Map<number, ReplayBullet>(); // Bullets in flight by network ID
+  results: MatchEndedPayload | null = null; // Set once the match has ended
+
+  private nextEvent = 0; // Index of the first event not applied yet
+  private keyframes: number[]; // Indexes of the keyframe events
+
+  constructor(recording: MatchRecording) {
+    this.recording = recording;
+    this.tickDelta = 1 / recording.tickRate;
+    this.keyframes = recording.events
+      .map((event, index) => (event.type === "keyframe" ? index : -1))
+      .filter((index) => index >= 0);
+    this.restart();
+  }
+
+  // Simulate forward to a tick, or jump back to it
+  seek(targetTick: number) {
+    const target = Math.max(0, Math.min(this.recording.endTick, targetTick));
+
+    // Keyframes are only worth restoring if they save simulating ticks
+    const keyframe = this.findKeyframe(target);
+    const keyframeTick =
+      keyframe === null ? 0 : this.recording.events[keyframe].tick;
+    if (target < this.tick || keyframeTick > this.tick) {
+      if (keyframe === null) {
+        this.restart();
+      } else {
+        this.restoreKeyframe(keyframe);
+      }
+    }
+
+    while (this.tick < target) {
+      this.step();
+    }
+  }
+
+  // Simulate the next tick
+  step() {
+    const events = this.recording.events;
+    const tick = this.tick + 1;
+
+    let end = this.nextEvent;
+    while (end < events.length && events[end].tick === tick) {
+      const event = events[end];
+      if (event.type === "input") {
+        const player = this.players.get(event.slot);
+        if (player) player.keys = event;
+      }
+      end++;
+    }
+
+    this.players.forEach((player) => {
+      player.previousX = player.x;
+      player.previousY = player.y;
+      if (player.isDead) return;
+
+      const keys = player.keys;
+      stepPlayer(
+        player,
+        {
+          left: keys ? keys.left : false,
+          right: keys ? keys.right : false,
+          jump: keys ? keys.jump : false,
+          aim: (keys ? keys.flipX : player.flipX) ? Math.PI : 0,
+        },
+        this.tickDelta
+      );
+    });
+
+    this.bullets.forEach((bullet) => {
+      bullet.previousX = bullet.x;
+      bullet.x += bullet.velocityX * this.tickDelta;
+    });
+
+    this.tick = tick;
+    for (let index = this.nextEvent; index < end; index++) {
+      const event = events[index];
+      if (event.type !== "input") this.applyEvent(event);
+    }
+    this.nextEvent = end;
+  }
+
+  // Go back to the state before the first tick
+  private restart() {
+    this.tick = 0;
+    this.phase = "warmup";
+    this.players.clear();
+    this.bullets.clear();
+    this.results = null;
+    this.nextEvent = 0;
+    this.applyEventsOfTick();
+  }
+
+  // Take the state from a keyframe, then apply the rest of its tick
+  private restoreKeyframe(index: number) {
+    const keyframe = this.recording.events[index];
+    if (keyframe.type !== "keyframe") return;
+
+    this.tick = keyframe.tick;
+    this.results = null;
+    this.nextEvent = index;
+    this.players.clear();
+    this.applyEventsOfTick();
+  }
+
+  // Apply the remaining events of the current tick
+  private applyEventsOfTick() {
+    const events = this.recording.events;
+    while (
+      this.nextEvent < events.length &&
+      events[this.nextEvent].tick <= this.tick
+    ) {
+      this.applyEvent(events[this.nextEvent]);
+      this.nextEvent++;
+    }
+  }
+
+  private applyEvent(event: ReplayEvent) {
+    switch (event.type) {
+      case "input": {
+        const player = this.players.get(event.slot);
+        if (player) player.keys = event;
+        break;
+      }
+
+      case "keyframe":
+        // Keyframes match the simulation, but replace it in case it drifted
+        this.phase = event.phase;
+        event.players.forEach((state) => {
+          const player = this.setPlayerState(state);
+          player.keys = state.keys;
+        });
+        Array.from(this.players.keys())
+          .filter((slot) => !event.players.some((state) => state.slot === slot))
+          .forEach((slot) => this.players.delete(slot));
+        this.bullets = new Map(
+          event.bullets.map((state) => [
+            state.bullet,
+            { ...state, previousX: state.x },
+          ])
+        );
+        break;
+
+      case "join":
+        this.setPlayerState(event, true).keys = null;
+        break;
+
+      case "leave":
+        this.players.delete(event.slot);
+        break;
+
+      case "shot":
+        this.bullets.set(event.bullet, {
+          bullet: event.bullet,
+          slot: event.slot,
+          x: event.x,
+          y: event.y,
+          velocityX: event.velocityX,
+          previousX: event.x,
+        });
+        break;
+
+      case "bullet-end":
+        this.bullets.delete(event.bullet);
+        break;
+
+      case "damage": {
+        const player = this.players.get(event.slot);
+        if (player) player.health = event.health;
+        break;
+      }
+
+      case "death": {
+        const player = this.players.get(event.slot);
+        if (player) {
+          player.isDead = true;
+          player.health = 0;
+          player.deaths++;
+        }
+        const killer =
+          event.killer === null ? null : this.players.get(event.killer);
+        if (killer) killer.kills++;
+        break;
+      }
+
+      case "respawn": {
+        const player = this.players.get(event.slot);
+        if (!player) break;
+        player.x = player.previousX = event.x;
+        player.y = player.previousY = event.y;
+        player.health = MAX_HEALTH;
+        player.isDead = false;
+        player.physics = createPhysicsState();
+        break;
+      }
+
+      case "phase":
+        this.phase = event.phase;
+        break;
+
+      case "end":
+        this.phase = "finished";
+        this.results = event;
+        break;
+    }
+  }
+
+  // Overwrite a player's state, adding them if they aren't in the match.
+  // Players who were already in keep their position from the tick before
+  // unless they were moved somewhere new.
+  private setPlayerState(state: ReplayPlayerState, moved = false) {
+    let player = this.players.get(state.slot);
+    if (!player || moved) {
+      player = {
+        slot: state.slot,
+        x: state.x,
+        y: state.y,
+        flipX: state.flipX,
+        animation: "noot_idle",
+        physics: createPhysicsState(),
+        health: state.health,
+        isDead: state.isDead,
+        kills: state.kills,
+        deaths: state.deaths,
+        keys: null,
+        previousX: state.x,
+        previousY: state.y,
+      };
+      this.players.set(state.slot, player);
+    }
+
+    player.x = state.x;
+    player.y = state.y;
+    player.flipX = state.flipX;
+    player.physics = {
+      velocityX: state.velocityX,
+      velocityY: state.velocityY,
+      onGround: state.onGround,
+    };
+    player.health = state.health;
+    player.isDead = state.isDead;
+    player.kills = state.kills;
+    player.deaths = state.deaths;
+    player.animation = !state.onGround
+      ? "noot_jump"
+      : state.velocityX !== 0
+      ? "noot_walk"
+      : "noot_idle";
+    return player;
+  }
+
+  // Index of the last keyframe at or before a tick, if any
+  private findKeyframe(tick: number): number | null {
+    let found: number | null = null;
+    let low = 0;
+    let high = this.keyframes.length - 1;
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      const index = this.keyframes[middle];
+      if (this.recording.events[index].tick <= tick) {
+        found = index;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return found;
+  }
+}
@@ -0,0 +1,168 @@
+// Snapshot interpolation for remote entities.
+//
+// Server snapshots arrive with network jitter, so remote players are drawn a
+// fixed delay in the past: far enough back that the two snapshots around the
+// render time have usually both arrived. Position is blended between them;
+// discrete values (facing, animation) switch when the render time passes a
+// snapshot. If the next snapshot is late, the entity keeps moving along its
+// last known velocity for a short while instead of freezing.
+
+export interface EntityState {
+  x: number;
+  y: number;
+  flipX: boolean;
+  animation?: string;
+}
+
+interface TimedState extends EntityState {
+  time: number;
+}
+
+// Estimates the server's clock from snapshot timestamps. The offset follows
+// the fastest-arriving snapshots and drifts slowly, so a single late packet
+// does not push the render time back.
+export class ServerClock {
+  private offset: number | null = null;
+
+  observe(serverTime: number, localTime = Date.now()) {
+    const sample = serverTime - localTime;
+    if (this.offset === null || sample > this.offset) {
+      this.offset = sample;
+    } else {
+      this.offset += (sample - this.offset) * 0.01;
+    }
+  }
+
+  now(localTime = Date.now()): number {
+    return localTime + (this.offset ?? 0);
+  }
+
+  reset() {
+    this.offset = null;
+  }
+}
+
+class SnapshotBuffer {
+  private states: TimedState[] = [];
+  private maxExtrapolation: number;
+  private maxStates: number;
+
+  constructor(maxExtrapolation = 250, maxStates = 30) {
+    this.maxExtrapolation = maxExtrapolation;
+    this.maxStates = maxStates;
+  }
+
+  // Add a state stamped with server time. Out-of-order states are dropped.
+  push(time: number, state: EntityState) {
+    const newest = this.states[this.states.length - 1];
+    if (newest && time <= newest.time) return;
+
+    this.states.push({ ...state, time });
+    if (this.states.length > this.maxStates) {
+      this.states.shift();
+    }
+  }
+
+  // State of the entity at `renderTime` (server clock), or null if empty
+  sample(renderTime: number): EntityState | null {
+    if (this.states.length === 0) return null;
+
+    // Drop states that are no longer needed to interpolate
+    while (this.states.length > 2 && this.states[1].time <= renderTime) {
+      this.states.shift();
+    }
+
+    const [from, to] = this.states;
+
+    // Only one state, or render time is still before the oldest one
+    if (!to || renderTime <= from.time) {
+      return toEntityState(from);
+    }
+
+    if (renderTime <= to.time) {
+      const t = (renderTime - from.time) / (to.time - from.time);
+      return {
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+        flipX: from.flipX,
+        animation: from.animation,
+      };
+    }
+
+    // Past the newest state: extrapolate along the last velocity, but only
+    // for a short time so a dropped connection doesn't fly the sprite away
+    const ahead = Math.min(renderTime - to.time, this.maxExtrapolation);
+    const span = to.time - from.time;
+    return {
+      x: to.x + ((to.x - from.x) / span) * ahead,
+      y: to.y + ((to.y - from.y) / span) * ahead,
+      flipX: to.flipX,
+      animation: to.animation,
+    };
+  }
+
+  // Forget all states, e.g. after the entity teleports
+  clear() {
+    this.states = [];
+  }
+}
+
+// The last few seconds of whole snapshots, kept to be played back (e.g.
+// by the killcam). Unlike SnapshotBuffer it keeps states that were already
+// drawn, for up to `maxAge` milliseconds of server time.
+export class SnapshotHistory<T extends { time: number }> {
+  private snapshots: T[] = [];
+  private maxAge: number;
+
+  constructor(maxAge: number) {
+    this.maxAge = maxAge;
+  }
+
+  push(snapshot: T) {
+    const newest = this.newest();
+    if (newest && snapshot.time <= newest.time) return;
+
+    this.snapshots.push(snapshot);
+    while (this.snapshots[0].time < snapshot.time - this.maxAge) {
+      this.snapshots.shift();
+    }
+  }
+
+  newest(): T | null {
+    return this.snapshots[this.snapshots.length - 1] || null;
+  }
+
+  // The snapshots around `time` and how far between them it is, from 0 to
+  // 1. Times outside the history get its first or last snapshot.
+  sample(time: number): { from: T; to: T; progress: number } | null {
+    if (this.snapshots.length === 0) return null;
+
+    const next = this.snapshots.findIndex((snapshot) => snapshot.time > time);
+    if (next === 0) {
+      return { from: this.snapshots[0], to: this.snapshots[0], progress: 0 };
+    }
+    if (next === -1) {
+      const newest = this.snapshots[this.snapshots.length - 1];
+      return { from: newest, to: newest, progress: 0 };
+    }
+
+    const from = this.snapshots[next - 1];
+    const to = this.snapshots[next];
+    return { from, to, progress: (time - from.time) / (to.time - from.time) };
+  }
+
+  clear() {
+    this.snapshots = [];
+  }
+}
+
+function toEntityState(state: TimedState): EntityState {
+  return {
+    x: state.x,
+    y: state.y,
+    flipX: state.flipX,
+    animation: state.animation,
+  };
+}
+
+export default SnapshotBuffer;